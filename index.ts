@@ -1,6 +1,7 @@
 import type { ExtensionAPI } from "@mariozechner/pi-coding-agent"
 
 import inputStash from "./input-stash.ts"
+import iterm2Marks from "./iterm2-marks.ts"
 import piOpen from "./pi-open.ts"
 import piAsk from "./pi-ask.ts"
 import safety from "./safety.ts"
@@ -8,6 +9,7 @@ import veniceProvider from "./venice-provider.ts"
 
 export default function (pi: ExtensionAPI) {
   inputStash(pi)
+  iterm2Marks(pi)
   piOpen(pi)
   piAsk(pi)
   safety(pi)
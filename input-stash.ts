@@ -1,37 +1,493 @@
 /**
  * Input Stash Extension
  *
- * Ctrl+X to stash current input, Ctrl+X again (on blank input) to restore.
- * Useful for temporarily clearing the editor to type something else.
+ * Ctrl+, pushes the current input onto a stash stack, Ctrl+, again (on blank
+ * input) pops the most recent entry back into the editor.
+ * /stash lists all entries and lets you restore, rename, or drop any of them.
+ * Useful for juggling several half-written prompts at once.
+ *
+ * Stashes and the last unsent editor text are saved per project (cwd) in
+ * ~/.pi/agent/input-stash.json, so they survive quitting pi or a crash.
+ * On session start a recovered draft can be restored, stashed, or discarded.
+ * Entries older than a week expire.
+ *
+ * Ctrl+. queues the current input into an outbox instead. Queued drafts are
+ * sent one at a time as new prompts, each once the agent has finished its
+ * whole run. /outbox views, reorders, edits, or cancels drafts that haven't been sent.
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { dirname, resolve } from "node:path";
+import type { ExtensionAPI, ExtensionContext } from "@mariozechner/pi-coding-agent";
+
+const PREVIEW_LENGTH = 60;
+const STORE_PATH = resolve(homedir(), ".pi/agent/input-stash.json");
+const ENTRY_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+const DRAFT_SAVE_INTERVAL_MS = 5000;
+
+type StashEntry = {
+  name: string | null;
+  text: string;
+  createdAt: number;
+};
+
+type Draft = {
+  text: string;
+  savedAt: number;
+};
+
+type QueuedDraft = {
+  text: string;
+  queuedAt: number;
+};
+
+type ProjectStore = {
+  stash: StashEntry[];
+  draft: Draft | null;
+};
+
+type StoreFile = {
+  projects: Record<string, ProjectStore>;
+};
+
+// What this process last saw on disk, so a save can tell another session's
+// additions and removals apart from its own.
+type SyncState = {
+  stash: Set<string>;
+  draftSavedAt: number | null;
+};
+
+function readStore(): StoreFile {
+  try {
+    if (!existsSync(STORE_PATH)) return { projects: {} };
+    const parsed = JSON.parse(readFileSync(STORE_PATH, "utf8")) as Partial<StoreFile>;
+    return { projects: parsed.projects ?? {} };
+  } catch {
+    return { projects: {} };
+  }
+}
+
+function writeStore(store: StoreFile): void {
+  try {
+    mkdirSync(dirname(STORE_PATH), { recursive: true });
+    writeFileSync(STORE_PATH, `${JSON.stringify(store, null, 2)}\n`, "utf8");
+  } catch {
+    // Ignore write errors; the in-memory stash still works
+  }
+}
+
+function isFresh(timestamp: number, now = Date.now()): boolean {
+  return now - timestamp <= ENTRY_MAX_AGE_MS;
+}
+
+function normalizeProject(project: ProjectStore | undefined): ProjectStore {
+  if (!project) return { stash: [], draft: null };
+
+  return {
+    stash: (project.stash ?? []).filter((entry) => entry.text && isFresh(entry.createdAt)),
+    draft: project.draft && project.draft.text && isFresh(project.draft.savedAt) ? project.draft : null,
+  };
+}
+
+function loadProject(cwd: string): ProjectStore {
+  return normalizeProject(readStore().projects[cwd]);
+}
+
+function entryKey(entry: StashEntry): string {
+  return `${entry.createdAt}:${entry.text}`;
+}
+
+function syncStateOf(project: ProjectStore): SyncState {
+  return { stash: new Set(project.stash.map(entryKey)), draftSavedAt: project.draft?.savedAt ?? null };
+}
+
+/**
+ * Combine this process's project entry with the one on disk: entries another
+ * session added are kept, and entries it dropped stay dropped here too.
  */
+function mergeProject(ours: ProjectStore, disk: ProjectStore, synced: SyncState): ProjectStore {
+  const onDisk = new Set(disk.stash.map(entryKey));
+  const ourKeys = new Set(ours.stash.map(entryKey));
+  const kept = ours.stash.filter((entry) => !synced.stash.has(entryKey(entry)) || onDisk.has(entryKey(entry)));
+  const added = disk.stash.filter((entry) => !synced.stash.has(entryKey(entry)) && !ourKeys.has(entryKey(entry)));
+
+  // A draft saved by another session since our last sync survives until we have one of our own.
+  const theirDraft = disk.draft && disk.draft.savedAt !== synced.draftSavedAt ? disk.draft : null;
+
+  return {
+    stash: [...kept, ...added].sort((a, b) => a.createdAt - b.createdAt),
+    draft: ours.draft ?? theirDraft,
+  };
+}
+
+function saveProject(cwd: string, ours: ProjectStore, synced: SyncState): ProjectStore {
+  const store = readStore();
+  const project = mergeProject(ours, normalizeProject(store.projects[cwd]), synced);
 
-import type { ExtensionAPI } from "@mariozechner/pi-coding-agent";
+  // Drop expired entries from every project while we're rewriting the file.
+  const projects: Record<string, ProjectStore> = {};
+  for (const [key, value] of Object.entries(store.projects)) {
+    const stash = (value.stash ?? []).filter((entry) => isFresh(entry.createdAt));
+    const draft = value.draft && isFresh(value.draft.savedAt) ? value.draft : null;
+    if (stash.length || draft) projects[key] = { stash, draft };
+  }
+
+  if (project.stash.length || project.draft) projects[cwd] = project;
+  else delete projects[cwd];
+
+  writeStore({ projects });
+  return project;
+}
+
+function previewText(text: string): string {
+  const lines = text.trim().split("\n");
+  const firstLine = lines[0] ?? "";
+  const preview = firstLine.length > PREVIEW_LENGTH ? `${firstLine.slice(0, PREVIEW_LENGTH - 1)}…` : firstLine;
+  return lines.length > 1 ? `${preview} (+${lines.length - 1} lines)` : preview;
+}
+
+function formatAge(timestamp: number, now = Date.now()): string {
+  const seconds = Math.max(0, Math.round((now - timestamp) / 1000));
+  if (seconds < 60) return "just now";
+
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `${minutes}m ago`;
+
+  const hours = Math.round(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+
+  return new Date(timestamp).toLocaleDateString();
+}
+
+function describeEntry(entry: StashEntry, index: number): string {
+  const label = entry.name ? `${entry.name} — ${previewText(entry.text)}` : previewText(entry.text);
+  return `${index + 1}. ${label} (${formatAge(entry.createdAt)})`;
+}
+
+function describeQueued(entry: QueuedDraft, index: number): string {
+  return `${index + 1}. ${previewText(entry.text)} (${formatAge(entry.queuedAt)})`;
+}
+
+function moveItem<T>(items: T[], from: number, to: number): T[] {
+  if (to < 0 || to >= items.length || from === to) return items;
+
+  const next = [...items];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+}
 
 export default function (pi: ExtensionAPI) {
-  let stash: string | null = null;
+  // Most recent entry last; Ctrl+, pushes and pops at the end.
+  let stash: StashEntry[] = [];
+  let draft: Draft | null = null;
+  let cwd: string | null = null;
+  let synced: SyncState = { stash: new Set(), draftSavedAt: null };
+  let draftTimer: ReturnType<typeof setInterval> | null = null;
+  // Drafts waiting to be sent, in order. Only one is handed to pi at a time.
+  let outbox: QueuedDraft[] = [];
+  let outboxInFlight = false;
+
+  const persist = () => {
+    if (!cwd) return;
+    const saved = saveProject(cwd, { stash, draft }, synced);
+    stash = saved.stash;
+    synced = syncStateOf(saved);
+  };
+
+  const push = (text: string, name: string | null = null) => {
+    stash = [...stash, { name, text, createdAt: Date.now() }];
+    persist();
+  };
+
+  const remove = (entry: StashEntry) => {
+    stash = stash.filter((candidate) => candidate !== entry);
+    persist();
+  };
+
+  const restore = (ctx: ExtensionContext, entry: StashEntry) => {
+    const current = ctx.ui.getEditorText();
+    remove(entry);
+
+    // Never lose the draft that is being replaced.
+    if (current && current.trim() !== "") push(current);
+
+    ctx.ui.setEditorText(entry.text);
+  };
+
+  const captureDraft = (ctx: ExtensionContext) => {
+    const text = ctx.ui.getEditorText();
+    const next = text && text.trim() !== "" ? text : null;
+    if ((draft?.text ?? null) === next) return;
+
+    draft = next ? { text: next, savedAt: Date.now() } : null;
+    persist();
+  };
+
+  const stopDraftTimer = () => {
+    if (draftTimer) clearInterval(draftTimer);
+    draftTimer = null;
+  };
+
+  const offerDraftRecovery = async (ctx: ExtensionContext, recovered: Draft) => {
+    const current = ctx.ui.getEditorText();
+    if (current && current.trim() !== "") {
+      draft = null;
+      push(recovered.text);
+      ctx.ui.notify("Recovered unsent draft moved to stash", "info");
+      return;
+    }
+
+    const choice = await ctx.ui.select(
+      `Recovered unsent draft (${formatAge(recovered.savedAt)}):\n\n  ${previewText(recovered.text)}`,
+      ["Restore to editor", "Move to stash", "Discard"],
+    );
+
+    // The draft stays on disk until here, so quitting during the prompt doesn't lose it.
+    if (choice === "Restore to editor") {
+      // Back in the editor it is the unsent draft again, so the saved copy stays.
+      ctx.ui.setEditorText(recovered.text);
+      ctx.ui.notify("Draft restored", "success");
+    } else if (choice === "Move to stash") {
+      draft = null;
+      push(recovered.text);
+      ctx.ui.notify("Draft stashed", "success");
+    } else if (choice === "Discard") {
+      draft = null;
+      persist();
+      ctx.ui.notify("Draft discarded", "info");
+    } else {
+      // Dismissed: keep it around for the next session instead of losing it.
+      draft = null;
+      push(recovered.text);
+    }
+  };
+
+  // Only an idle agent takes the draft as a new prompt; a busy one picks it up at its agent_end.
+  const dispatchNext = (ctx: ExtensionContext) => {
+    if (outboxInFlight || !ctx.isIdle()) return;
+
+    const next = outbox[0];
+    if (!next) return;
+
+    outbox = outbox.slice(1);
+    outboxInFlight = true;
+    pi.sendUserMessage(next.text);
+
+    if (ctx.hasUI) {
+      ctx.ui.notify(outbox.length ? `Sent queued draft (${outbox.length} left)` : "Sent queued draft", "info");
+    }
+  };
+
+  pi.on("session_start", async (_event, ctx) => {
+    stopDraftTimer();
+    outbox = [];
+    outboxInFlight = false;
+    cwd = ctx.cwd;
+
+    const project = loadProject(ctx.cwd);
+    stash = project.stash;
+    synced = syncStateOf(project);
+    // Without a UI there is nobody to offer the draft to, so it is left for later.
+    draft = project.draft;
+
+    if (!ctx.hasUI) return;
+
+    if (project.draft) await offerDraftRecovery(ctx, project.draft);
+
+    draftTimer = setInterval(() => captureDraft(ctx), DRAFT_SAVE_INTERVAL_MS);
+    draftTimer.unref?.();
+  });
+
+  pi.on("session_shutdown", async (_event, ctx) => {
+    stopDraftTimer();
+    if (ctx.hasUI) captureDraft(ctx);
+  });
+
+  pi.on("agent_end", async (_event, ctx) => {
+    outboxInFlight = false;
+    // agent_end listeners run before the agent is idle, so wait for it to settle first.
+    setTimeout(() => dispatchNext(ctx), 0);
+  });
+
+  pi.on("input", async (event) => {
+    // Submitted text is no longer an unsent draft.
+    if (event.source === "interactive" && draft) {
+      draft = null;
+      persist();
+    }
+    return { action: "continue" } as const;
+  });
 
   pi.registerShortcut("ctrl+,", {
-    description: "Toggle stash: stash input when not blank, restore when blank",
+    description: "Toggle stash: push input when not blank, pop latest stash when blank",
     handler: async (ctx) => {
       const text = ctx.ui.getEditorText();
       const inputIsBlank = !text || text.trim() === "";
 
       if (!inputIsBlank) {
-        if (stash !== null) {
-          ctx.ui.notify("Can't stash: clear input first to restore existing stash", "warning");
-        } else {
-          stash = text;
-          ctx.ui.setEditorText("");
-          ctx.ui.notify("Input stashed", "success");
-        }
-      } else {
-        if (stash !== null) {
-          ctx.ui.setEditorText(stash);
-          stash = null;
-          ctx.ui.notify("Stash restored", "success");
-        } else {
+        push(text);
+        ctx.ui.setEditorText("");
+        ctx.ui.notify(stash.length > 1 ? `Input stashed (${stash.length} in stash)` : "Input stashed", "success");
+        return;
+      }
+
+      const latest = stash[stash.length - 1];
+      if (!latest) {
+        ctx.ui.notify("Nothing in stash", "info");
+        return;
+      }
+
+      restore(ctx, latest);
+      ctx.ui.notify(stash.length ? `Stash restored (${stash.length} left)` : "Stash restored", "success");
+    },
+  });
+
+  pi.registerShortcut("ctrl+.", {
+    description: "Queue input as a follow-up prompt to send after the agent finishes",
+    handler: async (ctx) => {
+      const text = ctx.ui.getEditorText();
+      if (!text || text.trim() === "") {
+        ctx.ui.notify("Nothing to queue", "info");
+        return;
+      }
+
+      outbox = [...outbox, { text, queuedAt: Date.now() }];
+      ctx.ui.setEditorText("");
+
+      if (ctx.isIdle()) {
+        dispatchNext(ctx);
+        return;
+      }
+
+      ctx.ui.notify(`Queued draft (${outbox.length} in outbox)`, "success");
+    },
+  });
+
+  pi.registerCommand("outbox", {
+    description: "View, reorder, edit, or cancel queued follow-up drafts",
+    handler: async (_args, ctx) => {
+      while (true) {
+        if (!outbox.length) {
+          ctx.ui.notify("Outbox is empty", "info");
+          return;
+        }
+
+        const options = outbox.map(describeQueued);
+        const choice = await ctx.ui.select(`Outbox (${outbox.length})`, [...options, "Done"]);
+        if (!choice || choice === "Done") return;
+
+        const entry = outbox[options.indexOf(choice)];
+        if (!entry) return;
+
+        const action = await ctx.ui.select(previewText(entry.text), [
+          "Edit",
+          "Move up",
+          "Move down",
+          "Send next",
+          "Cancel draft",
+          "Back",
+        ]);
+        if (!action || action === "Back") continue;
+
+        // The draft may have been sent while the picker was open.
+        const index = outbox.indexOf(entry);
+        if (index === -1) {
+          ctx.ui.notify("Draft was already sent", "info");
+          continue;
+        }
+
+        if (action === "Edit") {
+          const value = await ctx.ui.editor("Edit queued draft", entry.text);
+          if (value === undefined) continue;
+
+          // It may also have been sent while the editor was open; the edit would then be lost.
+          if (!outbox.includes(entry)) {
+            if (value.trim() === "" || value === entry.text) {
+              ctx.ui.notify("Draft was already sent", "info");
+              continue;
+            }
+
+            const requeue = await ctx.ui.confirm("Draft was already sent", "Queue the edited text as a new draft?");
+            if (!requeue) continue;
+
+            outbox = [...outbox, { text: value, queuedAt: Date.now() }];
+            if (ctx.isIdle()) dispatchNext(ctx);
+            else ctx.ui.notify(`Queued edited draft (${outbox.length} in outbox)`, "success");
+            continue;
+          }
+
+          if (value.trim() === "") {
+            outbox = outbox.filter((candidate) => candidate !== entry);
+            ctx.ui.notify("Empty draft removed from outbox", "info");
+          } else {
+            entry.text = value;
+            ctx.ui.notify("Queued draft updated", "success");
+          }
+          continue;
+        }
+
+        if (action === "Move up") {
+          outbox = moveItem(outbox, index, index - 1);
+          continue;
+        }
+
+        if (action === "Move down") {
+          outbox = moveItem(outbox, index, index + 1);
+          continue;
+        }
+
+        if (action === "Send next") {
+          outbox = moveItem(outbox, index, 0);
+          continue;
+        }
+
+        outbox = outbox.filter((candidate) => candidate !== entry);
+        ctx.ui.notify("Queued draft cancelled", "info");
+      }
+    },
+  });
+
+  pi.registerCommand("stash", {
+    description: "List stashed inputs to restore, rename, or drop them",
+    handler: async (_args, ctx) => {
+      while (true) {
+        if (!stash.length) {
           ctx.ui.notify("Nothing in stash", "info");
+          return;
+        }
+
+        // Newest first, matching the order Ctrl+, pops entries.
+        const entries = [...stash].reverse();
+        const options = entries.map(describeEntry);
+        const choice = await ctx.ui.select(`Stash (${entries.length})`, [...options, "Done"]);
+        if (!choice || choice === "Done") return;
+
+        const entry = entries[options.indexOf(choice)];
+        if (!entry) return;
+
+        const action = await ctx.ui.select(previewText(entry.text), ["Restore", "Rename", "Drop", "Back"]);
+        if (!action || action === "Back") continue;
+
+        if (action === "Restore") {
+          restore(ctx, entry);
+          ctx.ui.notify("Stash restored", "success");
+          return;
         }
+
+        if (action === "Rename") {
+          const value = await ctx.ui.input("Stash name", entry.name ?? "");
+          if (value === undefined) continue;
+
+          entry.name = value.trim() || null;
+          persist();
+          ctx.ui.notify(entry.name ? `Renamed stash: ${entry.name}` : "Cleared stash name", "success");
+          continue;
+        }
+
+        remove(entry);
+        ctx.ui.notify("Stash dropped", "info");
       }
     },
   });
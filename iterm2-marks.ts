@@ -1,35 +1,401 @@
+import { spawn, spawnSync } from "node:child_process";
+import { existsSync, readFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { basename, resolve } from "node:path";
 import type { ExtensionAPI } from "@mariozechner/pi-coding-agent";
 import { Text } from "@mariozechner/pi-tui";
 
-// iTerm2 marks: jump between agent responses.
-//   Cmd+Shift+Up   — previous mark
-//   Cmd+Shift+Down — next mark
+// Terminal marks: jump between agent responses.
 //
-// Direct iTerm2: mark at response start (precise).
-// tmux: mark at each turn start (requires: set -g allow-passthrough on).
+// iTerm2 gets its proprietary SetMark (Cmd+Shift+Up/Down). WezTerm, Kitty,
+// Ghostty and the VS Code terminal get OSC 133 semantic prompt zones:
+//   A — prompt start, B — input start, C — agent response (output) start,
+//   D — end of the agent turn.
+// pi's editor is not part of the scrollback, so the submitted user message is
+// the prompt zone: A/B go right before it and C right after it. D closes the
+// previous turn just before the next A; while the agent is still running a
+// message can't be added without steering it.
+//
+// Direct: marks are rendered as hidden messages, so they sit exactly there.
+// tmux: sequences are written as the prompt is submitted and at each turn start
+// (requires: set -g allow-passthrough on); the TUI can't measure the wrapped form.
+//
+// Desktop notifications use the same escape-sequence path: OSC 9 or OSC 777
+// (tmux-wrapped when needed), with notify-send for terminals without either.
+// They fire when an agent run took longer than minDurationSeconds, and when a
+// blocking prompt (safety confirmation, ask_user picker) is waiting for input.
+// Other extensions announce those prompts on the "pi-ext:awaiting-input" event.
+//
+// The window title (OSC 2) shows the project name plus agent state (working,
+// waiting, idle), and OSC 9;4 drives the tab progress indicator. The original
+// title is pushed on start and popped again on exit. tmux ignores that title
+// stack, so there the pane title is read on start and set back on exit.
+//
+// Override detection in ~/.pi/agent/terminal-marks.json:
+//   {
+//     "terminal": "kitty",
+//     "marks": { "vscode": "none", "unknown": "osc133" },
+//     "notifications": { "method": "notify-send", "minDurationSeconds": 60, "onTurnEnd": true, "onPrompt": false },
+//     "title": true,
+//     "progress": false
+//   }
+
+type TerminalId = "iterm2" | "wezterm" | "kitty" | "ghostty" | "vscode" | "unknown";
+type MarkStyle = "iterm2" | "osc133" | "none";
+type NotifyMethod = "osc9" | "osc777" | "notify-send" | "none";
+type NotifySettings = {
+	method: NotifyMethod | "auto";
+	minDurationSeconds: number;
+	onTurnEnd: boolean;
+	onPrompt: boolean;
+};
+type MarkSettings = {
+	terminal: TerminalId | "auto";
+	marks: Partial<Record<TerminalId, MarkStyle>>;
+	notifications: NotifySettings;
+	title: boolean;
+	progress: boolean;
+};
+type AgentState = "working" | "waiting" | "idle";
+// Where a rendered mark sits: before the user message (prompt) or after it (output)
+type MarkDetails = { phase: "prompt" | "output"; closesTurn?: boolean };
 
 const IN_TMUX = !!process.env.TMUX;
-const MARK_DIRECT = "\x1b]1337;SetMark\x07";
-const MARK_TMUX = "\x1bPtmux;\x1b\x1b]1337;SetMark\x07\x1b\\";
+const SETTINGS_PATH = resolve(homedir(), ".pi/agent/terminal-marks.json");
+const TERMINAL_IDS: TerminalId[] = ["iterm2", "wezterm", "kitty", "ghostty", "vscode", "unknown"];
+const MARK_STYLES: MarkStyle[] = ["iterm2", "osc133", "none"];
+const NOTIFY_METHODS: NotifyMethod[] = ["osc9", "osc777", "notify-send", "none"];
+const AWAITING_INPUT_EVENT = "pi-ext:awaiting-input";
+const DEFAULT_MARK_STYLES: Record<TerminalId, MarkStyle> = {
+	iterm2: "iterm2",
+	wezterm: "osc133",
+	kitty: "osc133",
+	ghostty: "osc133",
+	vscode: "osc133",
+	unknown: "none",
+};
+const DEFAULT_NOTIFY_METHODS: Record<TerminalId, NotifyMethod> = {
+	iterm2: "osc9",
+	wezterm: "osc777",
+	kitty: "osc9",
+	ghostty: "osc777",
+	vscode: "notify-send",
+	unknown: "notify-send",
+};
+const DEFAULT_NOTIFY_SETTINGS: NotifySettings = {
+	method: "auto",
+	minDurationSeconds: 30,
+	onTurnEnd: true,
+	onPrompt: true,
+};
+
+const OSC_ITERM2_MARK = "\x1b]1337;SetMark\x07";
+const OSC_133_PROMPT_START = "\x1b]133;A\x07";
+const OSC_133_INPUT_START = "\x1b]133;B\x07";
+const OSC_133_OUTPUT_START = "\x1b]133;C\x07";
+const OSC_133_TURN_END = "\x1b]133;D;0\x07";
+const CSI_PUSH_TITLE = "\x1b[22;0t";
+const CSI_POP_TITLE = "\x1b[23;0t";
+// OSC 9;4 progress states: 0 = hidden, 3 = indeterminate, 4 = paused/warning.
+const PROGRESS_SEQUENCES: Record<AgentState, string> = {
+	working: "\x1b]9;4;3\x07",
+	waiting: "\x1b]9;4;4;100\x07",
+	idle: "\x1b]9;4;0\x07",
+};
+
+function parseNotifySettings(raw: Partial<NotifySettings> | undefined): NotifySettings {
+	const method = NOTIFY_METHODS.includes(raw?.method as NotifyMethod) ? (raw?.method as NotifyMethod) : "auto";
+	const minDurationSeconds =
+		typeof raw?.minDurationSeconds === "number" && raw.minDurationSeconds >= 0
+			? raw.minDurationSeconds
+			: DEFAULT_NOTIFY_SETTINGS.minDurationSeconds;
+
+	return {
+		method,
+		minDurationSeconds,
+		onTurnEnd: raw?.onTurnEnd ?? DEFAULT_NOTIFY_SETTINGS.onTurnEnd,
+		onPrompt: raw?.onPrompt ?? DEFAULT_NOTIFY_SETTINGS.onPrompt,
+	};
+}
+
+function loadSettings(): MarkSettings {
+	const fallback: MarkSettings = {
+		terminal: "auto",
+		marks: {},
+		notifications: { ...DEFAULT_NOTIFY_SETTINGS },
+		title: true,
+		progress: true,
+	};
+	if (!existsSync(SETTINGS_PATH)) return fallback;
+
+	try {
+		const parsed = JSON.parse(readFileSync(SETTINGS_PATH, "utf8")) as Partial<MarkSettings>;
+		const terminal = TERMINAL_IDS.includes(parsed.terminal as TerminalId) ? (parsed.terminal as TerminalId) : "auto";
+		const marks: MarkSettings["marks"] = {};
+		for (const id of TERMINAL_IDS) {
+			const style = parsed.marks?.[id];
+			if (style && MARK_STYLES.includes(style)) marks[id] = style;
+		}
+		return {
+			terminal,
+			marks,
+			notifications: parseNotifySettings(parsed.notifications),
+			title: parsed.title ?? fallback.title,
+			progress: parsed.progress ?? fallback.progress,
+		};
+	} catch {
+		return fallback;
+	}
+}
+
+// Inside tmux TERM_PROGRAM is "tmux", so fall back to variables the outer
+// terminal exports into every child (they survive into tmux panes).
+function detectTerminal(env: NodeJS.ProcessEnv = process.env): TerminalId {
+	const program = env.TERM_PROGRAM?.toLowerCase() ?? "";
+
+	if (program === "iterm.app" || env.LC_TERMINAL === "iTerm2" || env.ITERM_SESSION_ID) return "iterm2";
+	if (program === "wezterm" || env.WEZTERM_PANE) return "wezterm";
+	if (program === "ghostty" || env.GHOSTTY_RESOURCES_DIR) return "ghostty";
+	if (program === "vscode" || env.VSCODE_INJECTION || env.VSCODE_GIT_IPC_HANDLE) return "vscode";
+	if (env.TERM === "xterm-kitty" || env.KITTY_WINDOW_ID) return "kitty";
+
+	return "unknown";
+}
+
+// Wrap an escape sequence so tmux forwards it to the outer terminal.
+function wrapForTmux(sequence: string): string {
+	return IN_TMUX ? `\x1bPtmux;${sequence.replace(/\x1b/g, "\x1b\x1b")}\x1b\\` : sequence;
+}
+
+function resolveTerminal(settings: MarkSettings): TerminalId {
+	return settings.terminal === "auto" ? detectTerminal() : settings.terminal;
+}
+
+function resolveStyle(settings: MarkSettings): MarkStyle {
+	const terminal = resolveTerminal(settings);
+	return settings.marks[terminal] ?? DEFAULT_MARK_STYLES[terminal];
+}
+
+function resolveNotifyMethod(settings: MarkSettings): NotifyMethod {
+	const method = settings.notifications.method;
+	return method === "auto" ? DEFAULT_NOTIFY_METHODS[resolveTerminal(settings)] : method;
+}
+
+// OSC payloads end at BEL/ST and OSC 777 splits fields on ";", so keep both out.
+function sanitizeNotification(text: string): string {
+	return text.replace(/[\x00-\x1f\x7f]+/g, " ").replace(/;/g, ",").trim();
+}
+
+function notificationSequence(method: NotifyMethod, title: string, body: string): string {
+	if (method === "osc9") return `\x1b]9;${sanitizeNotification(`${title}: ${body}`)}\x07`;
+	if (method === "osc777") return `\x1b]777;notify;${sanitizeNotification(title)};${sanitizeNotification(body)}\x07`;
+	return "";
+}
+
+let notifySendAvailable: boolean | undefined;
+
+function sendNotification(method: NotifyMethod, title: string, body: string): void {
+	if (method === "none") return;
+
+	if (method === "notify-send") {
+		notifySendAvailable ??= spawnSync("which", ["notify-send"], { timeout: 2000 }).status === 0;
+		if (!notifySendAvailable) return;
+
+		try {
+			spawn("notify-send", ["--app-name=pi", title, body], { stdio: "ignore", detached: true }).unref();
+		} catch {
+			// Ignore notification failures
+		}
+		return;
+	}
+
+	process.stdout.write(wrapForTmux(notificationSequence(method, title, body)));
+}
+
+// tmux ignores CSI 22/23 t, so the pane title is saved and restored through tmux itself.
+function readTmuxPaneTitle(): string | null {
+	const target = process.env.TMUX_PANE ? ["-t", process.env.TMUX_PANE] : [];
+	const result = spawnSync("tmux", ["display-message", "-p", ...target, "#{pane_title}"], {
+		encoding: "utf8",
+		timeout: 2000,
+	});
+	return result.status === 0 ? result.stdout.replace(/\n$/, "") : null;
+}
+
+function restoreTmuxPaneTitle(title: string): void {
+	const target = process.env.TMUX_PANE ? ["-t", process.env.TMUX_PANE] : [];
+	spawnSync("tmux", ["select-pane", ...target, "-T", title], { stdio: "ignore", timeout: 2000 });
+}
+
+// tmux turns OSC 2 into the pane title itself (see set-titles), so only wrap the
+// progress sequence, which tmux doesn't understand.
+function titleSequence(title: string): string {
+	return `\x1b]2;${sanitizeNotification(title)}\x07`;
+}
+
+function formatDuration(ms: number): string {
+	const seconds = Math.round(ms / 1000);
+	if (seconds < 60) return `${seconds}s`;
+	return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+// iTerm2 marks only responses, so prompts get OSC 133 zones alone.
+function promptStartSequence(style: MarkStyle, closesTurn: boolean): string {
+	if (style !== "osc133") return "";
+	return (closesTurn ? OSC_133_TURN_END : "") + OSC_133_PROMPT_START + OSC_133_INPUT_START;
+}
+
+function responseStartSequence(style: MarkStyle): string {
+	if (style === "iterm2") return OSC_ITERM2_MARK;
+	if (style === "osc133") return OSC_133_OUTPUT_START;
+	return "";
+}
+
+function markSequence(style: MarkStyle, details: MarkDetails | undefined): string {
+	// Marks saved before prompts had their own phase are response starts.
+	if (details?.phase === "prompt") return promptStartSequence(style, details.closesTurn ?? false);
+	return responseStartSequence(style);
+}
 
 export default function (pi: ExtensionAPI) {
+	let settings = loadSettings();
+	let style = resolveStyle(settings);
+	let agentStartedAt: number | null = null;
+	let agentState: AgentState = "idle";
+	let projectName = basename(process.cwd());
+	let titleActive = false;
+	// A response was marked and its D hasn't been written yet
+	let turnOpen = false;
+	// Whether this process owns the title, decided once when it is first set
+	let titleEnabled = false;
+	// Pane title to put back on exit when running inside tmux
+	let savedTmuxTitle: string | null = null;
+
+	const setAgentState = (state: AgentState) => {
+		agentState = state;
+		if (!titleActive) return;
+
+		if (titleEnabled) process.stdout.write(titleSequence(`${projectName} · ${state}`));
+		if (settings.progress) process.stdout.write(wrapForTmux(PROGRESS_SEQUENCES[state]));
+	};
+
+	const notify = (body: string) => {
+		sendNotification(resolveNotifyMethod(settings), "pi", body);
+	};
+
+	pi.on("session_start", async (_event, ctx) => {
+		settings = loadSettings();
+		style = resolveStyle(settings);
+		projectName = basename(ctx.cwd);
+
+		if (!ctx.hasUI || titleActive) return;
+		if (settings.title && IN_TMUX) {
+			savedTmuxTitle = readTmuxPaneTitle();
+			// Without the old title there is nothing to restore, so leave the pane title alone.
+			titleEnabled = savedTmuxTitle !== null;
+		} else if (settings.title) {
+			process.stdout.write(CSI_PUSH_TITLE);
+			titleEnabled = true;
+		}
+		titleActive = true;
+		setAgentState("idle");
+	});
+
+	pi.on("session_shutdown", async () => {
+		if (!titleActive) return;
+
+		if (settings.progress) process.stdout.write(wrapForTmux(PROGRESS_SEQUENCES.idle));
+		if (titleEnabled && savedTmuxTitle !== null) restoreTmuxPaneTitle(savedTmuxTitle);
+		else if (titleEnabled) process.stdout.write(CSI_POP_TITLE);
+		titleEnabled = false;
+		savedTmuxTitle = null;
+		titleActive = false;
+	});
+
+	pi.on("before_agent_start", async () => {
+		setAgentState("working");
+	});
+
+	pi.on("agent_start", async () => {
+		agentStartedAt = Date.now();
+	});
+
+	pi.on("turn_start", async () => {
+		setAgentState("working");
+	});
+
+	// A blocking prompt was answered once the tool it guarded has run.
+	pi.on("tool_execution_end", async () => {
+		if (agentState === "waiting") setAgentState("working");
+	});
+
+	pi.on("agent_end", async (_event, ctx) => {
+		// Also clears "waiting": a prompt dismissed by aborting the run never reaches tool_execution_end.
+		setAgentState("idle");
+
+		const elapsed = agentStartedAt === null ? 0 : Date.now() - agentStartedAt;
+		agentStartedAt = null;
+
+		const { onTurnEnd, minDurationSeconds } = settings.notifications;
+		if (ctx.hasUI && onTurnEnd && elapsed >= minDurationSeconds * 1000) {
+			notify(`Agent finished after ${formatDuration(elapsed)}`);
+		}
+	});
+
+	pi.events.on(AWAITING_INPUT_EVENT, (data) => {
+		setAgentState("waiting");
+		if (!settings.notifications.onPrompt) return;
+
+		const title = (data as { title?: unknown } | undefined)?.title;
+		notify(typeof title === "string" && title.trim() ? `Needs input: ${title.trim()}` : "Needs input");
+	});
+
 	if (IN_TMUX) {
+		pi.on("input", async (_event, ctx) => {
+			if (!ctx.isIdle()) return { action: "continue" } as const;
+
+			const sequence = promptStartSequence(style, turnOpen);
+			if (sequence) process.stdout.write(wrapForTmux(sequence));
+			turnOpen = false;
+			return { action: "continue" } as const;
+		});
+
 		pi.on("turn_start", async () => {
-			process.stdout.write(MARK_TMUX);
+			const sequence = responseStartSequence(style);
+			if (sequence) process.stdout.write(wrapForTmux(sequence));
+			turnOpen = style !== "none";
 		});
 	} else {
+		// Sent while idle, a message lands in the scrollback before the user message.
+		pi.on("input", async (_event, ctx) => {
+			if (!ctx.isIdle() || style !== "osc133") return { action: "continue" } as const;
+
+			pi.sendMessage<MarkDetails>({
+				customType: "iterm2-mark",
+				content: "",
+				display: true,
+				details: { phase: "prompt", closesTurn: turnOpen },
+			});
+			turnOpen = false;
+			return { action: "continue" } as const;
+		});
+
 		pi.on("before_agent_start", async () => {
+			if (style === "none") return;
+
+			turnOpen = true;
 			return {
 				message: {
 					customType: "iterm2-mark",
 					content: "",
 					display: true,
+					details: { phase: "output" } satisfies MarkDetails,
 				},
 			};
 		});
 
-		pi.registerMessageRenderer("iterm2-mark", () => {
-			return new Text(MARK_DIRECT, 0, 0);
+		pi.registerMessageRenderer<MarkDetails>("iterm2-mark", (message) => {
+			return new Text(markSequence(style, message.details), 0, 0);
 		});
 
 		pi.on("context", async (event) => {
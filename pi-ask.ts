@@ -1,6 +1,20 @@
-import type { ExtensionAPI } from "@mariozechner/pi-coding-agent"
-import { CURSOR_MARKER, Key, Text, matchesKey, truncateToWidth, visibleWidth, wrapTextWithAnsi } from "@mariozechner/pi-tui"
-import { Type } from "@sinclair/typebox"
+import { spawn } from "node:child_process"
+import { createHash, randomBytes } from "node:crypto"
+import { appendFileSync, existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs"
+import { homedir } from "node:os"
+import { dirname, join, resolve } from "node:path"
+import type { ExtensionAPI, ExtensionContext } from "@mariozechner/pi-coding-agent"
+import {
+  CURSOR_MARKER,
+  Key,
+  Text,
+  decodeKittyPrintable,
+  getKeybindings,
+  matchesKey,
+  truncateToWidth,
+  visibleWidth,
+} from "@mariozechner/pi-tui"
+import { Type, type Static } from "@sinclair/typebox"
 
 type Choice = {
   label: string
@@ -8,7 +22,16 @@ type Choice = {
   description?: string
 }
 
+type AskSelection = {
+  label: string
+  value: string
+  index: number
+  additionalText: string | null
+}
+
 type AskResult = {
+  // Set for answers inside a multi-question form
+  id?: string
   question: string
   selectedLabel: string | null
   selectedValue: string | null
@@ -17,9 +40,111 @@ type AskResult = {
   answer: string | null
   cancelled: boolean
   freeformRequested: boolean
+  // "user" when picked in the UI, otherwise the headless provider that answered
+  source: AnswerSource
+  // The countdown ran out and the default choice was submitted for the user
+  timedOut: boolean
+  // Every chosen item in choice order; a single entry unless multiSelect is on
+  selections: AskSelection[]
   freeformChoices?: { label: string; description?: string }[]
 }
 
+type AskQuestion = {
+  id: string
+  question: string
+  choices: Choice[]
+  allowAdditionalText: boolean
+  multiSelect: boolean
+  minSelections: number
+  maxSelections: number
+  defaultChoice?: string
+  dependsOn?: { id: string; values: string[] }
+}
+
+type AskFormResult = {
+  title: string
+  // Only questions that were shown, in form order
+  answers: AskResult[]
+  cancelled: boolean
+  freeformQuestionId: string | null
+}
+
+type FormOutcome = { answers: AskResult[]; freeformQuestion: AskQuestion | null }
+
+type PageState = {
+  selectedIndex: number
+  fields: Map<number, TextField>
+  checked: Set<number>
+}
+
+type HeadlessProvider = (typeof HEADLESS_PROVIDERS)[number]
+type HeadlessPolicy = (typeof HEADLESS_POLICIES)[number]
+type AnswerSource = "user" | HeadlessProvider
+
+type HeadlessSettings = {
+  // Tried in order until one answers
+  providers: HeadlessProvider[]
+  answersFile: string | null
+  rpcCommand: string | null
+  rpcTimeoutSeconds: number
+  policy: HeadlessPolicy
+}
+
+type TimeoutSettings = {
+  // Off by default: nothing auto-submits unless the user opts in
+  enabled: boolean
+  // Used when the call passes no timeoutSeconds
+  seconds: number
+}
+
+type DecisionSettings = {
+  // Record answers the user picked in the decision log
+  enabled: boolean
+  // Also list remembered answers in the system prompt
+  inject: boolean
+  injectLimit: number
+}
+
+type AskSettings = { headless: HeadlessSettings; timeout: TimeoutSettings; decisions: DecisionSettings }
+
+// One line of the decision log
+type DecisionEntry = {
+  id: string
+  timestamp: string
+  // The form title, or the question itself for a single ask
+  title: string
+  question: string
+  questionId?: string
+  choices: Choice[]
+  result: AskResult
+  // Set from /ask decisions: replaces the recorded answer, or hides it from the agent
+  editedAnswer?: string
+  revoked?: boolean
+}
+
+type HeadlessPick = { choice: string | number | (string | number)[]; details?: string }
+
+const SETTINGS_PATH = resolve(homedir(), ".pi/agent/pi-ask.json")
+const HEADLESS_PROVIDERS = ["preset", "rpc", "policy"] as const
+// "default" uses the question's defaultChoice and falls back to the first choice
+const HEADLESS_POLICIES = ["none", "first", "default"] as const
+const DEFAULT_HEADLESS: HeadlessSettings = {
+  providers: [...HEADLESS_PROVIDERS],
+  answersFile: null,
+  rpcCommand: null,
+  rpcTimeoutSeconds: 300,
+  policy: "none",
+}
+
+// spawn's timeout is a 32-bit millisecond count
+const MAX_RPC_TIMEOUT_SECONDS = 2_000_000
+const DEFAULT_TIMEOUT: TimeoutSettings = { enabled: false, seconds: 60 }
+
+const DECISIONS_DIR = resolve(homedir(), ".pi/agent/pi-ask-decisions")
+const DEFAULT_DECISIONS: DecisionSettings = { enabled: true, inject: false, injectLimit: 20 }
+const DEFAULT_HISTORY_LIMIT = 5
+const MAX_HISTORY_LIMIT = 20
+
 const FREEFORM_LABEL = "Write a custom response"
 
 const ChoiceObjectSchema = Type.Object({
@@ -28,11 +153,37 @@ const ChoiceObjectSchema = Type.Object({
   description: Type.Optional(Type.String({ description: "Optional helper text shown below option" })),
 })
 
+const ChoicesSchema = Type.Array(
+  Type.Union([Type.String(), ChoiceObjectSchema]),
+  { description: "List of choices. Can be strings or {label,value,description}." },
+)
+
+const QuestionSchema = Type.Object({
+  id: Type.String({ description: "Stable id, used by dependsOn and to key the returned answers" }),
+  question: Type.String({ description: "Question shown on this page" }),
+  choices: ChoicesSchema,
+  allowAdditionalText: Type.Optional(Type.Boolean({ description: "Defaults to the top-level allowAdditionalText." })),
+  multiSelect: Type.Optional(Type.Boolean({ description: "If true, several choices can be checked." })),
+  defaultChoice: Type.Optional(Type.String({ description: "Label or value of the default choice." })),
+  minSelections: Type.Optional(Type.Number({ description: "multiSelect only: minimum checked choices (default 1)." })),
+  maxSelections: Type.Optional(Type.Number({ description: "multiSelect only: maximum checked choices (default all)." })),
+  dependsOn: Type.Optional(
+    Type.Object(
+      {
+        id: Type.String({ description: "id of an earlier question" }),
+        values: Type.Array(Type.String(), { description: "Show this question only if that answer includes one of these values or labels" }),
+      },
+    ),
+  ),
+})
+
 const AskUserParams = Type.Object({
-  question: Type.String({ description: "Question shown to the user" }),
-  choices: Type.Array(
-    Type.Union([Type.String(), ChoiceObjectSchema]),
-    { description: "List of choices. Can be strings or {label,value,description}." },
+  question: Type.String({ description: "Question shown to the user (the form title when `questions` is set)" }),
+  choices: Type.Optional(ChoicesSchema),
+  questions: Type.Optional(
+    Type.Array(QuestionSchema, {
+      description: "Ask several questions as one paged form with back/next navigation; top-level choices are then ignored.",
+    }),
   ),
   allowAdditionalText: Type.Optional(
     Type.Boolean({ description: "If true, Tab enables inline free-text details on the selected choice." }),
@@ -41,6 +192,17 @@ const AskUserParams = Type.Object({
     Type.String({ description: "Label used in inline detail help text." }),
   ),
   canCancel: Type.Optional(Type.Boolean({ description: "If true (default), Escape cancels." })),
+  defaultChoice: Type.Optional(
+    Type.String({ description: "Label or value of the default choice, used when nobody can answer interactively." }),
+  ),
+  timeoutSeconds: Type.Optional(
+    Type.Number({ description: "Auto-submit defaultChoice after this many seconds, if the user enabled timeouts." }),
+  ),
+  multiSelect: Type.Optional(
+    Type.Boolean({ description: "If true, the user can check several choices (Space toggles, Enter confirms)." }),
+  ),
+  minSelections: Type.Optional(Type.Number({ description: "multiSelect only: minimum checked choices (default 1)." })),
+  maxSelections: Type.Optional(Type.Number({ description: "multiSelect only: maximum checked choices (default all)." })),
 })
 
 function normalizeChoices(rawChoices: Array<string | { label: string; value?: string; description?: string }>): Choice[] {
@@ -64,19 +226,715 @@ function normalizeChoices(rawChoices: Array<string | { label: string; value?: st
     .filter((choice): choice is Choice => choice !== null)
 }
 
-function buildSystemPrompt(basePrompt: string): string {
-  return `${basePrompt}\n\n[pi-ask extension]\nRule: if you are about to ask the user to pick from 2+ choices, you MUST call ask_user instead of writing the choices in plain assistant text.\nThis includes "what should we do next?", tradeoff menus, option A/B/C prompts, and clarification checklists.\nKeep choices concise (3-6 options), and default allowAdditionalText=true so the user can press Tab on a selected option to add nuance.\nFor each choice: label = the action/path (short, scannable), description = tradeoffs, pros/cons, or key context (optional, one line).\nSelf-check before sending: if your draft contains a numbered/bulleted choice list for the user, replace it with ask_user.`
+function normalizeQuestion(
+  raw: Omit<Static<typeof QuestionSchema>, "choices"> & { choices: Static<typeof ChoicesSchema> },
+  index: number,
+  defaultAllowAdditionalText: boolean,
+): AskQuestion {
+  const choices = normalizeChoices(raw.choices)
+  const maxSelections = Math.max(1, Math.min(choices.length, Math.floor(raw.maxSelections ?? choices.length)))
+  const values = raw.dependsOn?.values.map((value) => value.trim()).filter(Boolean) ?? []
+
+  return {
+    id: raw.id?.trim() || `q${index + 1}`,
+    question: raw.question,
+    choices,
+    allowAdditionalText: raw.allowAdditionalText ?? defaultAllowAdditionalText,
+    multiSelect: raw.multiSelect === true,
+    defaultChoice: raw.defaultChoice?.trim() || undefined,
+    minSelections: Math.max(0, Math.min(maxSelections, Math.floor(raw.minSelections ?? 1))),
+    maxSelections,
+    dependsOn: raw.dependsOn?.id?.trim() && values.length ? { id: raw.dependsOn.id.trim(), values } : undefined,
+  }
+}
+
+function formatChoiceList(choices: Choice[]): string {
+  return choices
+    .map((c, i) => c.description ? `  ${i + 1}. ${c.label} — ${c.description}` : `  ${i + 1}. ${c.label}`)
+    .join("\n")
+}
+
+function formToolResult(title: string, questions: AskQuestion[], outcome: FormOutcome, note = "") {
+  const details: AskFormResult = {
+    title,
+    answers: outcome.answers,
+    cancelled: false,
+    freeformQuestionId: outcome.freeformQuestion?.id ?? null,
+  }
+  const answered = outcome.answers
+    .map((answer) => {
+      const via = answer.timedOut
+        ? " [timed out, default used]"
+        : answer.source === "user" ? "" : ` [answered by ${answer.source}]`
+      return `  ${answer.id}: ${answer.selections.map(formatSelection).join("; ") || "(none selected)"}${via}`
+    })
+    .join("\n")
+  const summary =
+    (answered ? `User answered ${outcome.answers.length} of ${questions.length} questions:\n${answered}` : "User answered no questions") +
+    note
+
+  if (outcome.freeformQuestion) {
+    const { id, question, choices } = outcome.freeformQuestion
+    return {
+      content: [{
+        type: "text" as const,
+        text:
+          `${summary}\nThen chose to write a custom response to "${id}" (${question}) instead of picking from:\n` +
+          `${formatChoiceList(choices)}\nDo NOT take action yet — wait for the user's next message.`,
+      }],
+      details,
+    }
+  }
+
+  return { content: [{ type: "text" as const, text: summary }], details }
+}
+
+function loadSettings(): AskSettings {
+  const fallback: AskSettings = { headless: DEFAULT_HEADLESS, timeout: DEFAULT_TIMEOUT, decisions: DEFAULT_DECISIONS }
+  if (!existsSync(SETTINGS_PATH)) return applyHeadlessEnv(fallback)
+
+  try {
+    const parsed = JSON.parse(readFileSync(SETTINGS_PATH, "utf8")) as {
+      headless?: Partial<HeadlessSettings>
+      timeout?: Partial<TimeoutSettings>
+      decisions?: Partial<DecisionSettings>
+    }
+    const headless = parsed.headless ?? {}
+    const timeout = parsed.timeout ?? {}
+    const decisions = parsed.decisions ?? {}
+    // Anything spawn can't take as a timeout ("5m", -1, NaN) would make it throw
+    const rpcTimeout = headless.rpcTimeoutSeconds
+    const providers = Array.isArray(headless.providers)
+      ? headless.providers.filter((provider): provider is HeadlessProvider => HEADLESS_PROVIDERS.includes(provider))
+      : DEFAULT_HEADLESS.providers
+
+    return applyHeadlessEnv({
+      headless: {
+        providers,
+        answersFile: headless.answersFile?.trim() || null,
+        rpcCommand: headless.rpcCommand?.trim() || null,
+        rpcTimeoutSeconds:
+          typeof rpcTimeout === "number" && Number.isFinite(rpcTimeout) && rpcTimeout > 0
+            ? Math.min(rpcTimeout, MAX_RPC_TIMEOUT_SECONDS)
+            : DEFAULT_HEADLESS.rpcTimeoutSeconds,
+        policy: HEADLESS_POLICIES.includes(headless.policy as HeadlessPolicy)
+          ? (headless.policy as HeadlessPolicy)
+          : DEFAULT_HEADLESS.policy,
+      },
+      timeout: {
+        enabled: timeout.enabled === true,
+        seconds: typeof timeout.seconds === "number" && timeout.seconds > 0 ? timeout.seconds : DEFAULT_TIMEOUT.seconds,
+      },
+      decisions: {
+        enabled: decisions.enabled !== false,
+        inject: decisions.inject === true,
+        injectLimit:
+          typeof decisions.injectLimit === "number" && decisions.injectLimit > 0
+            ? Math.floor(decisions.injectLimit)
+            : DEFAULT_DECISIONS.injectLimit,
+      },
+    })
+  } catch {
+    return applyHeadlessEnv(fallback)
+  }
+}
+
+// Env vars win so a CI job or driving process can configure a run without touching the settings file
+function applyHeadlessEnv(settings: AskSettings): AskSettings {
+  const policy = process.env.PI_ASK_POLICY as HeadlessPolicy | undefined
+  return {
+    ...settings,
+    headless: {
+      ...settings.headless,
+      answersFile: process.env.PI_ASK_ANSWERS || settings.headless.answersFile,
+      rpcCommand: process.env.PI_ASK_RPC || settings.headless.rpcCommand,
+      policy: policy && HEADLESS_POLICIES.includes(policy) ? policy : settings.headless.policy,
+    },
+  }
+}
+
+// A question is shown when it has no condition, or its condition's question is shown and answered to match
+function visibleQuestionIndices(questions: AskQuestion[], answers: Map<string, AskResult>): number[] {
+  const visible: number[] = []
+  const visibleIds = new Set<string>()
+
+  questions.forEach((question, i) => {
+    const condition = question.dependsOn
+    if (condition) {
+      const answer = visibleIds.has(condition.id) ? answers.get(condition.id) : undefined
+      const matches = answer?.selections.some(
+        (selection) => condition.values.includes(selection.value) || condition.values.includes(selection.label),
+      )
+      if (!matches) return
+    }
+
+    visible.push(i)
+    visibleIds.add(question.id)
+  })
+
+  return visible
+}
+
+// Picks may name a choice by label, value, or 1-based number
+function findChoiceIndex(choices: Choice[], pick: string | number): number {
+  const token = String(pick).trim().toLowerCase()
+  const byName = choices.findIndex((choice) => choice.label.toLowerCase() === token || choice.value.toLowerCase() === token)
+  if (byName !== -1) return byName
+
+  const number = Number(token)
+  return Number.isInteger(number) && number >= 1 && number <= choices.length ? number - 1 : -1
+}
+
+function resultFromPick(question: AskQuestion, pick: HeadlessPick, source: AnswerSource, isForm: boolean): AskResult | null {
+  const picks = Array.isArray(pick.choice) ? pick.choice : [pick.choice]
+  const indices = [...new Set(picks.map((choice) => findChoiceIndex(question.choices, choice)))].sort((a, b) => a - b)
+  if (!indices.length || indices.includes(-1)) return null
+  if (!question.multiSelect && indices.length > 1) return null
+  if (question.multiSelect && (indices.length < question.minSelections || indices.length > question.maxSelections)) return null
+
+  const additionalText = pick.details?.trim() || null
+  const selections = indices.map((index, i): AskSelection => ({
+    label: question.choices[index].label,
+    value: question.choices[index].value,
+    index: index + 1,
+    // Details apply to the first pick, like a single Tab detail
+    additionalText: i === 0 ? additionalText : null,
+  }))
+  const [first] = selections
+
+  return makeResult(question.question, {
+    id: isForm ? question.id : undefined,
+    selectedLabel: first.label,
+    selectedValue: first.value,
+    selectedIndex: first.index,
+    additionalText,
+    answer: selections.map((selection) => (selection.additionalText ? `${selection.label}: ${selection.additionalText}` : selection.label)).join("; "),
+    selections,
+    source,
+  })
+}
+
+function parsePick(raw: unknown): HeadlessPick | null {
+  if (!raw || typeof raw !== "object") return null
+
+  const pick = raw as { choice?: unknown; details?: unknown }
+  const choice = pick.choice
+  const valid =
+    typeof choice === "string" ||
+    typeof choice === "number" ||
+    (Array.isArray(choice) && choice.length > 0 && choice.every((item) => typeof item === "string" || typeof item === "number"))
+  if (!valid) return null
+
+  return { choice: choice as HeadlessPick["choice"], details: typeof pick.details === "string" ? pick.details : undefined }
+}
+
+// A single ask_user call gets this id, so patterns are only tested against it for form questions
+function matchesPattern(regex: RegExp | string, question: AskQuestion, isForm: boolean): boolean {
+  const targets = isForm ? [question.id, question.question] : [question.question]
+  if (typeof regex !== "string") return targets.some((target) => regex.test(target))
+
+  const needle = regex.toLowerCase()
+  return (isForm && question.id.toLowerCase() === needle) || question.question.toLowerCase().includes(needle)
+}
+
+/**
+ * { "answers": [{ "match": "test runner", "choice": "Vitest", "details": "..." }] }, first matching entry wins.
+ * Problems with the file are reported through warn so a typo doesn't silently change what gets answered.
+ */
+function answerFromPreset(
+  question: AskQuestion,
+  answersFile: string | null,
+  isForm: boolean,
+  warn: (message: string) => void,
+): HeadlessPick | null {
+  if (!answersFile || !existsSync(answersFile)) return null
+
+  let parsed: { answers?: unknown }
+  try {
+    parsed = JSON.parse(readFileSync(answersFile, "utf8")) as { answers?: unknown }
+  } catch (error) {
+    warn(`${answersFile}: invalid JSON (${error instanceof Error ? error.message : String(error)})`)
+    return null
+  }
+
+  const entries = Array.isArray(parsed.answers) ? parsed.answers : []
+  if (!Array.isArray(parsed.answers)) warn(`${answersFile}: expected an "answers" array`)
+
+  for (const [i, entry] of entries.entries()) {
+    const pattern = (entry as { match?: unknown } | null)?.match
+    if (typeof pattern !== "string") {
+      warn(`${answersFile}: answers[${i}] has no "match" string`)
+      continue
+    }
+
+    let regex: RegExp | string
+    try {
+      regex = new RegExp(pattern, "i")
+    } catch {
+      warn(`${answersFile}: answers[${i}] "${pattern}" is not a valid regex, matching it as plain text`)
+      regex = pattern
+    }
+    if (!matchesPattern(regex, question, isForm)) continue
+
+    const pick = parsePick(entry)
+    if (!pick) warn(`${answersFile}: answers[${i}] has no usable "choice"`)
+    return pick
+  }
+
+  return null
+}
+
+/**
+ * Ask a driving process: the command gets one JSON request on stdin and
+ * answers with one JSON object ({ "choice": ..., "details"?: ... }) on stdout.
+ */
+function answerFromRpc(
+  question: AskQuestion,
+  settings: HeadlessSettings,
+  signal: AbortSignal | undefined,
+): Promise<HeadlessPick | null> {
+  const command = settings.rpcCommand
+  if (!command) return Promise.resolve(null)
+
+  const request = {
+    type: "ask_user",
+    id: question.id,
+    question: question.question,
+    choices: question.choices.map((choice, i) => ({ index: i + 1, ...choice })),
+    multiSelect: question.multiSelect,
+    minSelections: question.minSelections,
+    maxSelections: question.maxSelections,
+    defaultChoice: question.defaultChoice ?? null,
+  }
+
+  return new Promise((resolvePromise) => {
+    let stdout = ""
+    const child = spawn("sh", ["-c", command], {
+      stdio: ["pipe", "pipe", "inherit"],
+      timeout: settings.rpcTimeoutSeconds * 1000,
+      signal,
+    })
+
+    child.stdout.on("data", (chunk) => {
+      stdout += chunk
+    })
+    child.once("error", () => resolvePromise(null))
+    child.once("close", () => {
+      const line = stdout.split("\n").find((candidate) => candidate.trim())
+      try {
+        resolvePromise(line ? parsePick(JSON.parse(line)) : null)
+      } catch {
+        resolvePromise(null)
+      }
+    })
+
+    child.stdin.on("error", () => {})
+    child.stdin.end(`${JSON.stringify(request)}\n`)
+  })
+}
+
+function answerFromPolicy(question: AskQuestion, policy: HeadlessPolicy): HeadlessPick | null {
+  if (policy === "none") return null
+  if (policy === "default" && question.defaultChoice) return { choice: question.defaultChoice }
+
+  // Multi-select takes just enough leading choices to satisfy minSelections
+  const count = question.multiSelect ? Math.max(1, question.minSelections) : 1
+  return { choice: question.choices.slice(0, count).map((choice) => choice.value) }
+}
+
+async function answerHeadlessQuestion(
+  question: AskQuestion,
+  settings: HeadlessSettings,
+  isForm: boolean,
+  signal: AbortSignal | undefined,
+  warn: (message: string) => void,
+): Promise<AskResult | null> {
+  for (const provider of settings.providers) {
+    const pick =
+      provider === "preset"
+        ? answerFromPreset(question, settings.answersFile, isForm, warn)
+        : provider === "rpc"
+          ? await answerFromRpc(question, settings, signal)
+          : answerFromPolicy(question, settings.policy)
+
+    const result = pick ? resultFromPick(question, pick, provider, isForm) : null
+    if (result) return result
+  }
+
+  return null
+}
+
+/**
+ * Answer every visible question without a UI, trying providers in the
+ * configured order. Returns null as soon as one question goes unanswered.
+ */
+async function answerHeadless(
+  questions: AskQuestion[],
+  settings: HeadlessSettings,
+  isForm: boolean,
+  signal: AbortSignal | undefined,
+  warn: (message: string) => void,
+): Promise<FormOutcome | null> {
+  const answers = new Map<string, AskResult>()
+
+  for (let i = 0; i < questions.length; i++) {
+    if (!visibleQuestionIndices(questions, answers).includes(i)) continue
+
+    const result = await answerHeadlessQuestion(questions[i], settings, isForm, signal, warn)
+    if (!result) return null
+    answers.set(questions[i].id, result)
+  }
+
+  const answered = visibleQuestionIndices(questions, answers).flatMap((i) => answers.get(questions[i].id) ?? [])
+  return { answers: answered, freeformQuestion: null }
+}
+
+function buildSystemPrompt(basePrompt: string, withHistory: boolean): string {
+  const historyRule = withHistory
+    ? "\nBefore asking about a project preference or convention, call ask_history with a few keywords and reuse a remembered answer instead of asking again."
+    : ""
+  return `${basePrompt}\n\n[pi-ask extension]\nRule: if you are about to ask the user to pick from 2+ choices, you MUST call ask_user instead of writing the choices in plain assistant text.\nThis includes "what should we do next?", tradeoff menus, option A/B/C prompts, and clarification checklists.\nKeep choices concise (3-6 options), and default allowAdditionalText=true so the user can press Tab on a selected option to add nuance.\nWhen you need several related decisions, ask them in one call with questions=[{id, question, choices, dependsOn?}] instead of several ask_user calls.\nIf one option is a safe default, set defaultChoice to it (timeoutSeconds optional); it may be auto-submitted when the user is away.\nSet multiSelect=true when several options can apply at once (e.g. "which of these files should I refactor?").\nFor each choice: label = the action/path (short, scannable), description = tradeoffs, pros/cons, or key context (optional, one line).${historyRule}\nSelf-check before sending: if your draft contains a numbered/bulleted choice list for the user, replace it with ask_user.`
+}
+
+type TextField = {
+  readonly text: string
+  // Returns false for keys the field leaves to its owner (Enter, Esc, Tab, ...)
+  handleInput(data: string): boolean
+  render(width: number, focused: boolean): string[]
+}
+
+type TextFieldOptions = {
+  multiline?: boolean
+  // Shared between fields so text killed in one can be yanked into another
+  killRing?: string[]
+}
+
+// A visual row of a text field: [start, end) offsets into the text, excluding the newline
+type FieldRow = { start: number; end: number }
+
+type FieldSnapshot = { text: string; cursor: number }
+
+const PASTE_START = "\x1b[200~"
+const PASTE_END = "\x1b[201~"
+const MAX_UNDO_STEPS = 100
+
+const segmenter = new Intl.Segmenter(undefined, { granularity: "grapheme" })
+const isWordChar = (grapheme: string) => /[\p{L}\p{N}_]/u.test(grapheme)
+const isSpace = (grapheme: string) => /\s/.test(grapheme)
+
+function graphemesOf(text: string): string[] {
+  return Array.from(segmenter.segment(text), (part) => part.segment)
+}
+
+// Keep newlines (or flatten them for single-line fields), expand tabs, drop other control characters
+function sanitizeFieldText(text: string, multiline: boolean): string {
+  const normalized = text.replace(/\r\n?/g, "\n").replace(/\t/g, "    ")
+  const flattened = multiline ? normalized : normalized.replace(/\n/g, " ")
+  return flattened.replace(/\x1b\[[0-9;?]*[ -/]*[@-~]/g, "").replace(/[\x00-\x09\x0b-\x1f\x7f]/g, "")
+}
+
+/**
+ * Split text into the rows it occupies at the given width, breaking after
+ * whitespace where possible and mid-word only when a word is wider than a row.
+ */
+function layoutFieldRows(text: string, width: number): FieldRow[] {
+  const rows: FieldRow[] = []
+  let offset = 0
+
+  for (const line of text.split("\n")) {
+    let rowStart = offset
+    let rowWidth = 0
+    let breakAfter = -1
+
+    for (const { segment, index } of segmenter.segment(line)) {
+      const position = offset + index
+      const segmentWidth = visibleWidth(segment)
+      if (rowWidth + segmentWidth > width && position > rowStart) {
+        const end = breakAfter > rowStart ? breakAfter : position
+        rows.push({ start: rowStart, end })
+        rowStart = end
+        rowWidth = visibleWidth(text.slice(rowStart, position))
+        breakAfter = -1
+      }
+      rowWidth += segmentWidth
+      if (isSpace(segment)) breakAfter = position + segment.length
+    }
+
+    rows.push({ start: rowStart, end: offset + line.length })
+    offset += line.length + 1
+  }
+
+  return rows
+}
+
+// A cursor on a wrap boundary belongs to the row it starts, except at the end of a line
+function findCursorRow(rows: FieldRow[], cursor: number): number {
+  const index = rows.findIndex((row, i) => {
+    const next = rows[i + 1]
+    return cursor >= row.start && (cursor < row.end || (cursor === row.end && (!next || next.start > row.end)))
+  })
+  return index === -1 ? rows.length - 1 : index
 }
 
 function renderInlineCursor(text: string, cursor: number, focused: boolean): string {
   const clampedCursor = Math.max(0, Math.min(cursor, text.length))
   const before = text.slice(0, clampedCursor)
-  const atCursor = clampedCursor < text.length ? text[clampedCursor] : " "
-  const after = clampedCursor < text.length ? text.slice(clampedCursor + 1) : ""
+  const [atCursor = " "] = graphemesOf(text.slice(clampedCursor, clampedCursor + 16))
+  const after = clampedCursor < text.length ? text.slice(clampedCursor + atCursor.length) : ""
   const marker = focused ? CURSOR_MARKER : ""
   return `${before}${marker}\x1b[7m${atCursor}\x1b[27m${after}`
 }
 
+/**
+ * Editable text with readline-style keys from the user's pi-tui keybindings:
+ * grapheme-aware movement, word jumps, kill/yank, undo, bracketed paste, and
+ * up/down through wrapped rows as last rendered.
+ */
+function createTextField(initialText = "", options: TextFieldOptions = {}): TextField {
+  const multiline = options.multiline ?? true
+  const killRing = options.killRing ?? []
+  let text = initialText
+  let cursor = text.length
+  let lastAction: "type" | "kill" | "yank" | "vertical" | null = null
+  let yanked: { start: number; text: string } | null = null
+  let preferredColumn: number | null = null
+  let pasteBuffer: string | null = null
+  let rowWidth = Number.POSITIVE_INFINITY
+  const undoStack: FieldSnapshot[] = []
+
+  function pushUndo() {
+    undoStack.push({ text, cursor })
+    if (undoStack.length > MAX_UNDO_STEPS) undoStack.shift()
+  }
+
+  function replaceRange(start: number, end: number, replacement: string) {
+    text = text.slice(0, start) + replacement + text.slice(end)
+    cursor = start + replacement.length
+  }
+
+  function insert(raw: string) {
+    const insertion = sanitizeFieldText(raw, multiline)
+    if (!insertion) return
+
+    // A run of typed word characters undoes as one step
+    const continuesWord = lastAction === "type" && graphemesOf(insertion).every(isWordChar)
+    if (!continuesWord) pushUndo()
+    replaceRange(cursor, cursor, insertion)
+    lastAction = continuesWord || graphemesOf(insertion).every(isWordChar) ? "type" : null
+  }
+
+  // Consecutive kills collect into one ring entry, like readline
+  function kill(start: number, end: number) {
+    if (start === end) return
+    const killed = text.slice(start, end)
+    if (lastAction === "kill" && killRing.length > 0) {
+      const previous = killRing.pop() ?? ""
+      killRing.push(start < cursor ? killed + previous : previous + killed)
+    } else {
+      killRing.push(killed)
+    }
+
+    pushUndo()
+    replaceRange(start, end, "")
+    lastAction = "kill"
+  }
+
+  function yank() {
+    const entry = killRing[killRing.length - 1]
+    if (!entry) return
+    pushUndo()
+    yanked = { start: cursor, text: entry }
+    replaceRange(cursor, cursor, entry)
+    lastAction = "yank"
+  }
+
+  // Replace the text just yanked with the previous ring entry
+  function yankPop() {
+    if (lastAction !== "yank" || !yanked || killRing.length < 2) return
+    killRing.unshift(killRing.pop() ?? "")
+    const entry = killRing[killRing.length - 1]
+    replaceRange(yanked.start, yanked.start + yanked.text.length, entry)
+    yanked = { start: yanked.start, text: entry }
+    lastAction = "yank"
+  }
+
+  function undo() {
+    const snapshot = undoStack.pop()
+    if (!snapshot) return
+    text = snapshot.text
+    cursor = snapshot.cursor
+  }
+
+  const previousBoundary = (position: number) => position - (graphemesOf(text.slice(0, position)).pop()?.length ?? 0)
+  const nextBoundary = (position: number) => position + (graphemesOf(text.slice(position))[0]?.length ?? 0)
+  const lineStart = (position: number) => text.lastIndexOf("\n", position - 1) + 1
+  const lineEnd = (position: number) => (text.indexOf("\n", position) === -1 ? text.length : text.indexOf("\n", position))
+
+  // Skip whitespace, then one run of word characters or of punctuation
+  function wordBoundary(position: number, direction: -1 | 1): number {
+    const parts = graphemesOf(direction < 0 ? text.slice(0, position) : text.slice(position))
+    if (direction < 0) parts.reverse()
+
+    let index = 0
+    while (index < parts.length && isSpace(parts[index])) index++
+    const inWord = index < parts.length && isWordChar(parts[index])
+    while (index < parts.length && !isSpace(parts[index]) && isWordChar(parts[index]) === inWord) index++
+
+    const distance = parts.slice(0, index).join("").length
+    return position + direction * distance
+  }
+
+  function moveVertically(direction: -1 | 1): boolean {
+    const rows = layoutFieldRows(text, rowWidth)
+    const rowIndex = findCursorRow(rows, cursor)
+    const target = rows[rowIndex + direction]
+    if (!target) return false
+
+    const column = preferredColumn ?? visibleWidth(text.slice(rows[rowIndex].start, cursor))
+    let position = target.start
+    let width = 0
+    for (const part of graphemesOf(text.slice(target.start, target.end))) {
+      const partWidth = visibleWidth(part)
+      if (width + partWidth > column) break
+      width += partWidth
+      position += part.length
+    }
+
+    // The end of a wrapped row is the start of the next one, so stop one grapheme short
+    const wrapsIntoNext = rows[rowIndex + direction + 1]?.start === target.end
+    if (wrapsIntoNext && position === target.end && position > target.start) position = previousBoundary(position)
+
+    cursor = position
+    preferredColumn = column
+    lastAction = "vertical"
+    return true
+  }
+
+  function handlePasteInput(data: string): boolean {
+    pasteBuffer = (pasteBuffer ?? "") + data
+    const endIndex = pasteBuffer.indexOf(PASTE_END)
+    if (endIndex === -1) return true
+
+    const pasted = pasteBuffer.slice(0, endIndex)
+    const remaining = pasteBuffer.slice(endIndex + PASTE_END.length)
+    pasteBuffer = null
+    lastAction = null
+    insert(pasted)
+    lastAction = null
+    if (remaining) handleInput(remaining)
+    return true
+  }
+
+  function handleKey(data: string): boolean {
+    const kb = getKeybindings()
+
+    if (multiline && (kb.matches(data, "tui.input.newLine") || matchesKey(data, Key.alt("enter")))) {
+      lastAction = null
+      insert("\n")
+    } else if (kb.matches(data, "tui.editor.undo")) {
+      undo()
+      lastAction = null
+    } else if (kb.matches(data, "tui.editor.cursorUp") || kb.matches(data, "tui.editor.cursorDown")) {
+      return moveVertically(kb.matches(data, "tui.editor.cursorUp") ? -1 : 1)
+    } else if (kb.matches(data, "tui.editor.deleteCharBackward")) {
+      if (cursor === 0) return true
+      pushUndo()
+      replaceRange(previousBoundary(cursor), cursor, "")
+      lastAction = null
+    } else if (kb.matches(data, "tui.editor.deleteCharForward")) {
+      if (cursor === text.length) return true
+      pushUndo()
+      replaceRange(cursor, nextBoundary(cursor), "")
+      lastAction = null
+    } else if (kb.matches(data, "tui.editor.deleteWordBackward")) {
+      kill(wordBoundary(cursor, -1), cursor)
+    } else if (kb.matches(data, "tui.editor.deleteWordForward")) {
+      kill(cursor, wordBoundary(cursor, 1))
+    } else if (kb.matches(data, "tui.editor.deleteToLineStart")) {
+      // At the start of a line, join it with the previous one
+      const start = cursor === lineStart(cursor) ? Math.max(0, cursor - 1) : lineStart(cursor)
+      kill(start, cursor)
+    } else if (kb.matches(data, "tui.editor.deleteToLineEnd")) {
+      const end = cursor === lineEnd(cursor) ? Math.min(text.length, cursor + 1) : lineEnd(cursor)
+      kill(cursor, end)
+    } else if (kb.matches(data, "tui.editor.yank")) {
+      yank()
+    } else if (kb.matches(data, "tui.editor.yankPop")) {
+      yankPop()
+    } else if (kb.matches(data, "tui.editor.cursorWordLeft")) {
+      cursor = wordBoundary(cursor, -1)
+      lastAction = null
+    } else if (kb.matches(data, "tui.editor.cursorWordRight")) {
+      cursor = wordBoundary(cursor, 1)
+      lastAction = null
+    } else if (kb.matches(data, "tui.editor.cursorLeft")) {
+      cursor = previousBoundary(cursor)
+      lastAction = null
+    } else if (kb.matches(data, "tui.editor.cursorRight")) {
+      cursor = nextBoundary(cursor)
+      lastAction = null
+    } else if (kb.matches(data, "tui.editor.cursorLineStart")) {
+      cursor = lineStart(cursor)
+      lastAction = null
+    } else if (kb.matches(data, "tui.editor.cursorLineEnd")) {
+      cursor = lineEnd(cursor)
+      lastAction = null
+    } else {
+      return false
+    }
+
+    return true
+  }
+
+  function handleInput(data: string): boolean {
+    if (pasteBuffer !== null) return handlePasteInput(data)
+
+    const pasteStart = data.indexOf(PASTE_START)
+    if (pasteStart !== -1) {
+      if (pasteStart > 0) handleInput(data.slice(0, pasteStart))
+      return handlePasteInput(data.slice(pasteStart + PASTE_START.length))
+    }
+
+    const handled = handleKey(data)
+    if (lastAction !== "vertical") preferredColumn = null
+    if (handled) return true
+
+    // Kitty's CSI-u encoding of plain printable keys
+    const printable = decodeKittyPrintable(data)
+    if (printable !== undefined) {
+      insert(printable)
+      return true
+    }
+
+    // Plain text, including pastes from terminals without bracketed paste
+    if (!data.startsWith("\x1b") && sanitizeFieldText(data, multiline) && (data.length > 1 || data >= " ")) {
+      insert(data)
+      return true
+    }
+
+    return false
+  }
+
+  return {
+    get text() {
+      return text
+    },
+
+    handleInput,
+
+    // Leave a column free so the cursor can sit after a full row
+    render(width: number, focused: boolean): string[] {
+      rowWidth = Math.max(1, width - 1)
+      const rows = layoutFieldRows(text, rowWidth)
+      const cursorRow = findCursorRow(rows, cursor)
+      return rows.map((row, i) => {
+        const content = text.slice(row.start, row.end)
+        return i === cursorRow ? renderInlineCursor(content, cursor - row.start, focused) : content
+      })
+    },
+  }
+}
+
 /**
  * Render a selected choice with its detail editing area.
  * Detail text starts inline on the same line as the label.
@@ -86,36 +944,29 @@ function renderInlineCursor(text: string, cursor: number, focused: boolean): str
 function renderDetailBlock(
   base: string,
   separator: string,
-  text: string,
-  cursor: number,
+  field: TextField,
   focused: boolean,
   fallbackIndent: string,
   width: number,
 ): string[] {
-  const cursorText = renderInlineCursor(text, cursor, focused)
   const inlinePrefix = base + separator
   const inlineAvail = width - visibleWidth(inlinePrefix)
 
   // Try inline: detail starts on same line as label
   if (inlineAvail >= 15) {
-    const wrapped = wrapTextWithAnsi(cursorText, inlineAvail)
-    if (wrapped.length === 0) {
-      return [inlinePrefix + renderInlineCursor("", 0, focused)]
-    }
     const hangingIndent = " ".repeat(visibleWidth(inlinePrefix))
-    return wrapped.map((line, i) => (i === 0 ? inlinePrefix : hangingIndent) + line)
+    return field.render(inlineAvail, focused).map((line, i) => (i === 0 ? inlinePrefix : hangingIndent) + line)
   }
 
-  // Fallback: detail on separate line(s) below label
-  const fallbackAvail = width - visibleWidth(fallbackIndent)
-  if (fallbackAvail <= 5) {
-    return [truncateToWidth(base, width), fallbackIndent + renderInlineCursor(text, cursor, focused)]
-  }
-  const wrapped = wrapTextWithAnsi(cursorText, fallbackAvail)
-  if (wrapped.length === 0) {
-    return [truncateToWidth(base, width), fallbackIndent + renderInlineCursor("", 0, focused)]
-  }
-  return [truncateToWidth(base, width), ...wrapped.map(line => fallbackIndent + line)]
+  // Fallback: detail on separate line(s) below label, clipped when even that is too narrow
+  const fallbackAvail = Math.max(width - visibleWidth(fallbackIndent), 10)
+  const lines = field.render(fallbackAvail, focused).map((line) => truncateToWidth(fallbackIndent + line, width))
+  return [truncateToWidth(base, width), ...lines]
+}
+
+function formatSelection(selection: AskSelection): string {
+  const detailText = selection.additionalText ? ` + details: ${selection.additionalText}` : ""
+  return `${selection.index}. ${selection.label}${detailText}`
 }
 
 function makeResult(question: string, overrides: Partial<AskResult> = {}): AskResult {
@@ -128,296 +979,755 @@ function makeResult(question: string, overrides: Partial<AskResult> = {}): AskRe
     answer: null,
     cancelled: false,
     freeformRequested: false,
+    source: "user",
+    timedOut: false,
+    selections: [],
     ...overrides,
   }
 }
 
-function registerAskTool(pi: ExtensionAPI, name: string, label: string) {
-  pi.registerTool({
-    name,
-    label,
-    description:
-      "Ask the user a multiple-choice question in an interactive selector. Tab enables inline typing to add extra free text to the selected option.",
-    parameters: AskUserParams,
+function askInteractively(
+  ctx: ExtensionContext,
+  title: string,
+  questions: AskQuestion[],
+  isForm: boolean,
+  additionalTextLabel: string,
+  timeoutSeconds: number | null,
+): Promise<FormOutcome> {
+  return ctx.ui.custom<FormOutcome>((tui, theme, _kb, complete) => {
+    let page = 0
+    let mode: "select" | "detail" = "select"
+    let focused = false
+    let cachedLines: string[] | undefined
+    let notice: string | null = null
+    const pages: PageState[] = questions.map(() => ({
+      selectedIndex: 0,
+      fields: new Map<number, TextField>(),
+      checked: new Set<number>(),
+    }))
+    const answers = new Map<string, AskResult>()
+
+    const current = () => questions[page]
+    const state = () => pages[page]
+    const isFreeform = () => state().selectedIndex === current().choices.length
+
+    const killRing: string[] = []
+
+    function fieldFor(index: number): TextField {
+      const { fields } = state()
+      const existing = fields.get(index)
+      if (existing) return existing
+
+      const field = createTextField("", { killRing })
+      fields.set(index, field)
+      return field
+    }
 
-    async execute(_toolCallId, params, _signal, _onUpdate, ctx) {
-      const choices = normalizeChoices(params.choices)
-      const allowAdditionalText = params.allowAdditionalText !== false
-      const canCancel = params.canCancel !== false
-      const additionalTextLabel = params.additionalTextLabel?.trim() || "additional details"
+    function getAdditional(index = state().selectedIndex): string {
+      return state().fields.get(index)?.text ?? ""
+    }
 
-      if (!ctx.hasUI) {
-        return {
-          content: [{ type: "text", text: "Error: ask_user requires interactive UI mode." }],
-          details: makeResult(params.question, { cancelled: true }),
-        }
+    function refresh() {
+      cachedLines = undefined
+      tui.requestRender()
+    }
+
+    function enterDetailMode() {
+      mode = "detail"
+      refresh()
+    }
+
+    const visiblePages = () => visibleQuestionIndices(questions, answers)
+
+    let countdown: number | null = null
+    let countdownTimer: ReturnType<typeof setInterval> | undefined
+    // Any keypress means someone is there, so the countdown stops for the rest of the form
+    let countdownCancelled = timeoutSeconds === null
+
+    const defaultIndex = (question = current()) =>
+      question.defaultChoice ? findChoiceIndex(question.choices, question.defaultChoice) : -1
+
+    function stopCountdown() {
+      if (countdownTimer) clearInterval(countdownTimer)
+      countdownTimer = undefined
+      countdown = null
+    }
+
+    // The default alone must be a valid answer: on a multi-select page it has to satisfy
+    // minSelections and can't replace boxes that are already checked
+    const defaultIsValidAnswer = () =>
+      defaultIndex() !== -1 && (!current().multiSelect || (current().minSelections <= 1 && state().checked.size === 0))
+
+    function startCountdown() {
+      stopCountdown()
+      if (countdownCancelled || timeoutSeconds === null || !defaultIsValidAnswer()) return
+
+      countdown = timeoutSeconds
+      countdownTimer = setInterval(() => {
+        countdown = (countdown ?? 1) - 1
+        if (countdown <= 0) submitDefault()
+        else refresh()
+      }, 1000)
+    }
+
+    function done(outcome: FormOutcome) {
+      stopCountdown()
+      complete(outcome)
+    }
+
+    function submitDefault() {
+      const index = defaultIndex()
+      stopCountdown()
+      if (!defaultIsValidAnswer()) return
+
+      const selection = makeSelection(index, null)
+      state().selectedIndex = index
+      mode = "select"
+      commitAnswer(makeResult(current().question, {
+        id: isForm ? current().id : undefined,
+        selectedLabel: selection.label,
+        selectedValue: selection.value,
+        selectedIndex: selection.index,
+        answer: selection.label,
+        selections: [selection],
+        timedOut: true,
+      }))
+    }
+
+    function collectAnswers(): AskResult[] {
+      return visiblePages().flatMap((i) => answers.get(questions[i].id) ?? [])
+    }
+
+    function goToPage(next: number) {
+      page = next
+      mode = "select"
+      startCountdown()
+      refresh()
+    }
+
+    // Record the answer for this page, then move to the next visible question or finish
+    function commitAnswer(result: AskResult) {
+      answers.set(current().id, result)
+      const next = visiblePages().find((i) => i > page)
+      if (next === undefined) done({ answers: collectAnswers(), freeformQuestion: null })
+      else goToPage(next)
+    }
+
+    function goBack() {
+      const previous = visiblePages().filter((i) => i < page).pop()
+      if (previous !== undefined) goToPage(previous)
+    }
+
+    function makeSelection(index: number, additionalText: string | null): AskSelection {
+      const choice = current().choices[index]
+      return { label: choice.label, value: choice.value, index: index + 1, additionalText: additionalText?.trim() || null }
+    }
+
+    function submitChoice(additionalText: string | null) {
+      const selection = makeSelection(state().selectedIndex, additionalText)
+      const answer = selection.additionalText ? `${selection.label}: ${selection.additionalText}` : selection.label
+
+      commitAnswer(makeResult(current().question, {
+        id: isForm ? current().id : undefined,
+        selectedLabel: selection.label,
+        selectedValue: selection.value,
+        selectedIndex: selection.index,
+        additionalText: selection.additionalText,
+        answer,
+        selections: [selection],
+      }))
+    }
+
+    function toggleChecked(index: number) {
+      const { checked } = state()
+      if (checked.has(index)) {
+        checked.delete(index)
+      } else if (checked.size >= current().maxSelections) {
+        notice = `Select at most ${current().maxSelections}`
+      } else {
+        checked.add(index)
       }
+      refresh()
+    }
 
-      if (choices.length === 0) {
-        return {
-          content: [{ type: "text", text: "Error: ask_user requires at least one choice." }],
-          details: makeResult(params.question, { cancelled: true }),
-        }
+    // The first checked item also fills the single-select fields for older consumers
+    function submitSelections() {
+      const { checked } = state()
+      if (checked.size < current().minSelections) {
+        notice = `Select at least ${current().minSelections}`
+        refresh()
+        return
       }
 
-      const freeformIndex = choices.length
-      const totalItems = choices.length + 1
+      const selections = [...checked].sort((a, b) => a - b).map((index) => makeSelection(index, getAdditional(index)))
+      const [first] = selections
+      const answer = selections
+        .map((selection) => (selection.additionalText ? `${selection.label}: ${selection.additionalText}` : selection.label))
+        .join("; ")
+
+      commitAnswer(makeResult(current().question, {
+        id: isForm ? current().id : undefined,
+        selectedLabel: first?.label ?? null,
+        selectedValue: first?.value ?? null,
+        selectedIndex: first?.index ?? null,
+        additionalText: first?.additionalText ?? null,
+        answer: answer || null,
+        selections,
+      }))
+    }
 
-      const result = await ctx.ui.custom<AskResult>((tui, theme, _kb, done) => {
-        let selectedIndex = 0
-        let mode: "select" | "detail" = "select"
-        let detailCursor = 0
-        let focused = false
-        let cachedLines: string[] | undefined
-        const additionalByIndex = new Map<number, string>()
+    function submitFreeformRequest() {
+      done({ answers: collectAnswers(), freeformQuestion: current() })
+    }
 
-        const isFreeform = () => selectedIndex === freeformIndex
+    function handleDetailInput(data: string) {
+      // The field sees input first so a pasted newline never submits
+      if (fieldFor(state().selectedIndex).handleInput(data)) {
+        refresh()
+        return
+      }
 
-        function getAdditional(index = selectedIndex): string {
-          return additionalByIndex.get(index) || ""
+      // Plain Enter → submit, or in multi-select keep the details and check the item
+      if (matchesKey(data, Key.enter)) {
+        if (questions[page].multiSelect) {
+          if (!state().checked.has(state().selectedIndex)) toggleChecked(state().selectedIndex)
+          mode = "select"
+          refresh()
+        } else {
+          submitChoice(getAdditional())
         }
+        return
+      }
 
-        function setAdditional(value: string, index = selectedIndex) {
-          if (!value) additionalByIndex.delete(index)
-          else additionalByIndex.set(index, value)
-        }
+      if (matchesKey(data, Key.escape) || matchesKey(data, Key.tab)) {
+        mode = "select"
+        refresh()
+      }
+    }
+
+    function confirmPage() {
+      if (isFreeform()) submitFreeformRequest()
+      else if (current().multiSelect) submitSelections()
+      else submitChoice(getAdditional())
+    }
+
+    function handleInput(data: string) {
+      notice = null
+      if (!countdownCancelled) {
+        countdownCancelled = true
+        stopCountdown()
+        refresh()
+      }
+
+      if (mode === "detail") {
+        handleDetailInput(data)
+        return
+      }
+
+      const { choices, multiSelect } = current()
+
+      if (multiSelect && data === " ") {
+        if (!isFreeform()) toggleChecked(state().selectedIndex)
+        return
+      }
+
+      if (matchesKey(data, Key.up)) {
+        state().selectedIndex = Math.max(0, state().selectedIndex - 1)
+        refresh()
+        return
+      }
 
-        function refresh() {
-          cachedLines = undefined
-          tui.requestRender()
+      if (matchesKey(data, Key.down)) {
+        state().selectedIndex = Math.min(choices.length, state().selectedIndex + 1)
+        refresh()
+        return
+      }
+
+      // ←/→ page through a multi-question form; → confirms like Enter
+      if (isForm && matchesKey(data, Key.left)) {
+        goBack()
+        return
+      }
+
+      if (isForm && matchesKey(data, Key.right)) {
+        confirmPage()
+        return
+      }
+
+      if (matchesKey(data, Key.tab)) {
+        if (isFreeform()) {
+          submitFreeformRequest()
+        } else if (current().allowAdditionalText) {
+          enterDetailMode()
         }
+        return
+      }
 
-        function enterDetailMode() {
-          mode = "detail"
-          detailCursor = getAdditional().length
-          refresh()
+      if (matchesKey(data, Key.enter)) {
+        confirmPage()
+        return
+      }
+
+      if (matchesKey(data, Key.escape)) {
+        submitFreeformRequest()
+        return
+      }
+
+      // Number keys 1-9: quick-select and immediately submit a choice (toggle in multi-select)
+      if (data >= "1" && data <= "9") {
+        const index = parseInt(data) - 1
+        if (index < choices.length) {
+          state().selectedIndex = index
+          if (multiSelect) toggleChecked(index)
+          else submitChoice(getAdditional(index))
         }
+        return
+      }
+
+      // 0: freeform — close ask UI, return to native editor
+      if (data === "0") {
+        submitFreeformRequest()
+      }
+    }
+
+    function render(width: number): string[] {
+      if (cachedLines) return cachedLines
+
+      const lines: string[] = []
+      const add = (line: string) => lines.push(truncateToWidth(line, width))
+      const detailIndent = "     "
+      const question = current()
+      const { selectedIndex, checked } = state()
+
+      add(theme.fg("accent", "─".repeat(width)))
+
+      if (isForm) {
+        const visible = visiblePages()
+        const position = visible.indexOf(page)
+        const dots = visible.map((i) => (i === page ? "●" : answers.has(questions[i].id) ? "◉" : "○")).join(" ")
+        add(`${theme.fg("muted", ` ${title}`)}  ${theme.fg("dim", `${position + 1}/${visible.length}`)}  ${theme.fg("accent", dots)}`)
+      }
 
-        function submitChoice(additionalText: string | null) {
-          const selected = choices[selectedIndex]
-          const normalizedAdditional = additionalText?.trim() || null
-          const answer = normalizedAdditional ? `${selected.label}: ${normalizedAdditional}` : selected.label
-
-          done(makeResult(params.question, {
-            selectedLabel: selected.label,
-            selectedValue: selected.value,
-            selectedIndex: selectedIndex + 1,
-            additionalText: normalizedAdditional,
-            answer,
-          }))
+      add(theme.fg("text", ` ${question.question}`))
+      lines.push("")
+
+      // Render choices
+      for (let i = 0; i < question.choices.length; i++) {
+        const choice = question.choices[i]
+        const isSelected = i === selectedIndex
+        const prefix = isSelected ? theme.fg("accent", "> ") : "  "
+        const color = isSelected ? "accent" : "text"
+        const checkbox = question.multiSelect ? theme.fg(checked.has(i) ? "success" : "dim", checked.has(i) ? "[x] " : "[ ] ") : ""
+        const timer = countdown !== null && i === defaultIndex() ? theme.fg("warning", ` ⏱ ${countdown}s`) : ""
+        const base = `${prefix}${checkbox}${theme.fg(color, `${i + 1}. ${choice.label}`)}${timer}`
+        const additional = getAdditional(i)
+
+        if (isSelected && mode === "detail") {
+          const separator = theme.fg("muted", " — ")
+          for (const dl of renderDetailBlock(base, separator, fieldFor(i), focused, detailIndent, width)) {
+            lines.push(dl)
+          }
+        } else if (additional) {
+          add(`${base}${theme.fg("muted", ` — ${additional.replace(/\n/g, " ↵ ")}`)}`)
+        } else {
+          add(base)
         }
 
-        function submitFreeformRequest() {
-          done(makeResult(params.question, { freeformRequested: true }))
+        if (choice.description) {
+          add(`${detailIndent}${theme.fg("muted", choice.description)}`)
         }
+      }
 
-        function handleDetailInput(data: string) {
-          const current = getAdditional()
+      // Freeform option (always last)
+      lines.push("")
+      const freeformSelected = isFreeform()
+      const freeformPrefix = freeformSelected ? theme.fg("accent", "> ") : "  "
+      const freeformColor = freeformSelected ? "accent" : "muted"
+      add(`${freeformPrefix}${theme.fg(freeformColor, `0. ${FREEFORM_LABEL}`)}`)
+
+      // Help text
+      lines.push("")
+      if (notice) add(theme.fg("warning", ` ${notice}`))
+      if (countdown !== null) add(theme.fg("dim", " Press any key to stop the countdown"))
+      const k = (key: string) => theme.fg("muted", key)
+      const d = (desc: string) => theme.fg("dim", desc)
+      const isLastPage = visiblePages().every((i) => i <= page)
+      const confirmLabel = !isForm ? "confirm" : isLastPage ? "finish" : "next"
+      const backHelp = isForm && visiblePages().some((i) => i < page) ? ` ${k("←")} ${d("back •")}` : ""
+      if (mode === "detail") {
+        const enterLabel = question.multiSelect ? "keep •" : isForm && !isLastPage ? "next •" : "submit •"
+        add(` ${d("type")} ${k(additionalTextLabel)} ${d("•")} ${k("Shift+Enter")} ${d("newline •")} ${k("Enter")} ${d(enterLabel)} ${k("Tab/Esc")} ${d("back")}`)
+      } else if (question.multiSelect) {
+        const detailHelp = question.allowAdditionalText ? ` ${k("Tab")} ${d("add " + additionalTextLabel + " •")}` : ""
+        add(` ${k("↑↓")} ${d("move •")} ${k("Space 1-9")} ${d("toggle •")}${detailHelp} ${k("Enter")} ${d(`${confirmLabel} (${checked.size} selected) •`)}${backHelp} ${k("0/Esc")} ${d("custom")}`)
+      } else if (question.allowAdditionalText) {
+        add(` ${k("↑↓ 1-9")} ${d("select •")} ${k("Tab")} ${d("add " + additionalTextLabel + " •")}${backHelp} ${k("0/Esc")} ${d("custom")}`)
+      } else {
+        add(` ${k("↑↓ 1-9")} ${d("select •")}${backHelp} ${k("0/Esc")} ${d("custom")}`)
+      }
 
-          // Shift+Enter / Alt+Enter → insert newline
-          if (matchesKey(data, Key.shift("enter")) || matchesKey(data, Key.alt("enter"))) {
-            const next = current.slice(0, detailCursor) + "\n" + current.slice(detailCursor)
-            setAdditional(next)
-            detailCursor += 1
-            refresh()
-            return
-          }
+      add(theme.fg("accent", "─".repeat(width)))
 
-          // Plain Enter → submit
-          if (matchesKey(data, Key.enter)) {
-            submitChoice(current)
-            return
-          }
+      cachedLines = lines
+      return lines
+    }
 
-          if (matchesKey(data, Key.escape) || matchesKey(data, Key.tab)) {
-            mode = "select"
-            refresh()
-            return
-          }
+    startCountdown()
+
+    return {
+      get focused() {
+        return focused
+      },
+      set focused(value: boolean) {
+        focused = value
+      },
+      render,
+      handleInput,
+      invalidate: () => {
+        cachedLines = undefined
+      },
+      dispose: stopCountdown,
+    }
+  })
+}
 
-          if (matchesKey(data, Key.left)) {
-            detailCursor = Math.max(0, detailCursor - 1)
-            refresh()
-            return
-          }
+function formatSourceNote(source: AnswerSource): string {
+  return source === "user" ? "" : `\n(Answered non-interactively by the ${source} provider; the user was not asked.)`
+}
 
-          if (matchesKey(data, Key.right)) {
-            detailCursor = Math.min(current.length, detailCursor + 1)
-            refresh()
-            return
-          }
+// Results saved before headless providers have no source
+function formatSourceTag(result: AskResult, theme: { fg: (color: "dim", text: string) => string }): string {
+  if (result.timedOut) return theme.fg("dim", " (timed out → default)")
+  return result.source && result.source !== "user" ? theme.fg("dim", ` (via ${result.source})`) : ""
+}
 
-          if (matchesKey(data, Key.home)) {
-            detailCursor = 0
-            refresh()
-            return
-          }
+/**
+ * One log per working directory under ~/.pi/agent, like the other extensions'
+ * per-project state. Keeping it out of the worktree means a repo can't ship
+ * answers the user never gave, and typed details never end up committed.
+ */
+function decisionLogPath(cwd: string): string {
+  const key = createHash("sha1").update(resolve(cwd)).digest("hex").slice(0, 16)
+  return join(DECISIONS_DIR, `${key}.jsonl`)
+}
 
-          if (matchesKey(data, Key.end)) {
-            detailCursor = current.length
-            refresh()
-            return
-          }
+// Malformed lines are skipped so one bad write never hides the rest of the log
+function readDecisions(path: string): DecisionEntry[] {
+  if (!existsSync(path)) return []
+
+  return readFileSync(path, "utf8")
+    .split("\n")
+    .flatMap((line) => {
+      if (!line.trim()) return []
+      try {
+        const entry = JSON.parse(line) as DecisionEntry
+        return entry && typeof entry.id === "string" && entry.result ? [entry] : []
+      } catch {
+        return []
+      }
+    })
+}
 
-          if (matchesKey(data, Key.backspace)) {
-            if (detailCursor > 0) {
-              const next = current.slice(0, detailCursor - 1) + current.slice(detailCursor)
-              setAdditional(next)
-              detailCursor -= 1
-              refresh()
-            }
-            return
-          }
+function writeDecisions(path: string, entries: DecisionEntry[]) {
+  mkdirSync(dirname(path), { recursive: true })
+  writeFileSync(path, entries.map((entry) => `${JSON.stringify(entry)}\n`).join(""))
+}
 
-          if (matchesKey(data, Key.delete)) {
-            if (detailCursor < current.length) {
-              const next = current.slice(0, detailCursor) + current.slice(detailCursor + 1)
-              setAdditional(next)
-              refresh()
-            }
-            return
-          }
+/**
+ * Append the answers the user actually picked. Headless and timed-out answers
+ * are skipped: nobody made those decisions, so they shouldn't be remembered.
+ */
+function recordDecisions(path: string, title: string, questions: AskQuestion[], answers: AskResult[]) {
+  const entries = answers.flatMap((result): DecisionEntry[] => {
+    if (result.source !== "user" || result.timedOut || result.cancelled || result.answer === null) return []
+
+    const question = questions.find((candidate) => candidate.id === result.id) ?? questions[0]
+    return [{
+      id: randomBytes(4).toString("hex"),
+      timestamp: new Date().toISOString(),
+      title,
+      question: result.question,
+      questionId: result.id,
+      choices: question.choices,
+      result,
+    }]
+  })
+  if (entries.length === 0) return
 
-          if (data.length === 1 && data.charCodeAt(0) >= 32) {
-            const next = current.slice(0, detailCursor) + data + current.slice(detailCursor)
-            setAdditional(next)
-            detailCursor += data.length
-            refresh()
-          }
-        }
+  mkdirSync(dirname(path), { recursive: true })
+  appendFileSync(path, entries.map((entry) => `${JSON.stringify(entry)}\n`).join(""))
+}
 
-        function handleInput(data: string) {
-          if (mode === "detail") {
-            handleDetailInput(data)
-            return
-          }
+const decisionAnswer = (entry: DecisionEntry) => entry.editedAnswer ?? entry.result.answer ?? ""
+const decisionDate = (entry: DecisionEntry) => entry.timestamp.slice(0, 10)
 
-          if (matchesKey(data, Key.up)) {
-            selectedIndex = Math.max(0, selectedIndex - 1)
-            refresh()
-            return
-          }
+const decisionKey = (entry: DecisionEntry) => entry.question.trim().toLowerCase()
 
-          if (matchesKey(data, Key.down)) {
-            selectedIndex = Math.min(totalItems - 1, selectedIndex + 1)
-            refresh()
-            return
-          }
+// Newest first, and only the latest answer to each question: asking again supersedes the old answer
+function activeDecisions(entries: DecisionEntry[]): DecisionEntry[] {
+  const seen = new Set<string>()
+  return [...entries].reverse().filter((entry) => {
+    if (seen.has(decisionKey(entry))) return false
+    seen.add(decisionKey(entry))
+    return !entry.revoked
+  })
+}
 
-          if (matchesKey(data, Key.tab)) {
-            if (isFreeform()) {
-              submitFreeformRequest()
-            } else if (allowAdditionalText) {
-              enterDetailMode()
-            }
-            return
-          }
+// Ids of entries a later answer to the same question has replaced
+function supersededDecisionIds(entries: DecisionEntry[]): Set<string> {
+  const seen = new Set<string>()
+  const superseded = new Set<string>()
+  for (const entry of [...entries].reverse()) {
+    if (seen.has(decisionKey(entry))) superseded.add(entry.id)
+    seen.add(decisionKey(entry))
+  }
+  return superseded
+}
 
-          if (matchesKey(data, Key.enter)) {
-            if (isFreeform()) {
-              submitFreeformRequest()
-            } else {
-              submitChoice(getAdditional())
-            }
-            return
-          }
+/**
+ * Apply a change to one entry by id against the log as it is now, so answers
+ * appended while a dialog was open survive. Returning null deletes the entry.
+ */
+function updateDecision(path: string, id: string, change: (entry: DecisionEntry) => DecisionEntry | null): boolean {
+  const entries = readDecisions(path)
+  const index = entries.findIndex((entry) => entry.id === id)
+  if (index === -1) return false
+
+  const next = change(entries[index])
+  if (next) entries[index] = next
+  else entries.splice(index, 1)
+  writeDecisions(path, entries)
+  return true
+}
 
-          if (matchesKey(data, Key.escape)) {
-            submitFreeformRequest()
-            return
-          }
+function tokenizeQuery(query: string): string[] {
+  return query.toLowerCase().split(/[^\p{L}\p{N}_]+/u).filter((token) => token.length > 1)
+}
 
-          // Number keys 1-9: quick-select and immediately submit a choice
-          if (data >= "1" && data <= "9") {
-            const index = parseInt(data) - 1
-            if (index < choices.length) {
-              selectedIndex = index
-              submitChoice(getAdditional(index))
-            }
-            return
-          }
+// Rank by how many query words appear anywhere in the entry; an empty query lists the newest
+function searchDecisions(entries: DecisionEntry[], query: string, limit: number): DecisionEntry[] {
+  const tokens = tokenizeQuery(query)
+  const active = activeDecisions(entries)
+  if (tokens.length === 0) return active.slice(0, limit)
+
+  return active
+    .map((entry) => {
+      const haystack = [
+        entry.title,
+        entry.question,
+        entry.questionId ?? "",
+        decisionAnswer(entry),
+        ...entry.choices.flatMap((choice) => [choice.label, choice.value, choice.description ?? ""]),
+      ].join(" ").toLowerCase()
+      return { entry, score: tokens.filter((token) => haystack.includes(token)).length }
+    })
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ entry }) => entry)
+}
 
-          // 0: freeform — close ask UI, return to native editor
-          if (data === "0") {
-            submitFreeformRequest()
-          }
-        }
+function formatDecision(entry: DecisionEntry): string {
+  const edited = entry.editedAnswer !== undefined ? " (edited by the user)" : ""
+  return `[${decisionDate(entry)}] ${entry.question} → ${decisionAnswer(entry)}${edited}`
+}
 
-        function render(width: number): string[] {
-          if (cachedLines) return cachedLines
-
-          const lines: string[] = []
-          const add = (line: string) => lines.push(truncateToWidth(line, width))
-          const detailIndent = "     "
-
-          add(theme.fg("accent", "─".repeat(width)))
-          add(theme.fg("text", ` ${params.question}`))
-          lines.push("")
-
-          // Render choices
-          for (let i = 0; i < choices.length; i++) {
-            const choice = choices[i]
-            const isSelected = i === selectedIndex
-            const prefix = isSelected ? theme.fg("accent", "> ") : "  "
-            const color = isSelected ? "accent" : "text"
-            const base = `${prefix}${theme.fg(color, `${i + 1}. ${choice.label}`)}`
-            const additional = getAdditional(i)
-
-            if (isSelected && mode === "detail") {
-              const separator = theme.fg("muted", " — ")
-              for (const dl of renderDetailBlock(base, separator, additional, detailCursor, focused, detailIndent, width)) {
-                lines.push(dl)
-              }
-            } else if (additional) {
-              add(`${base}${theme.fg("muted", ` — ${additional}`)}`)
-            } else {
-              add(base)
-            }
-
-            if (choice.description) {
-              add(`${detailIndent}${theme.fg("muted", choice.description)}`)
-            }
-          }
+function buildDecisionPrompt(entries: DecisionEntry[], limit: number): string {
+  const remembered = activeDecisions(entries).slice(0, limit)
+  if (remembered.length === 0) return ""
 
-          // Freeform option (always last)
-          lines.push("")
-          const freeformSelected = isFreeform()
-          const freeformPrefix = freeformSelected ? theme.fg("accent", "> ") : "  "
-          const freeformColor = freeformSelected ? "accent" : "muted"
-          add(`${freeformPrefix}${theme.fg(freeformColor, `0. ${FREEFORM_LABEL}`)}`)
-
-          // Help text
-          lines.push("")
-          const k = (key: string) => theme.fg("muted", key)
-          const d = (desc: string) => theme.fg("dim", desc)
-          if (mode === "detail") {
-            add(` ${d("type")} ${k(additionalTextLabel)} ${d("•")} ${k("Shift+Enter")} ${d("newline •")} ${k("Enter")} ${d("submit •")} ${k("Tab/Esc")} ${d("back")}`)
-          } else if (allowAdditionalText) {
-            add(` ${k("↑↓ 1-9")} ${d("select •")} ${k("Tab")} ${d("add " + additionalTextLabel + " •")} ${k("0/Esc")} ${d("custom")}`)
-          } else {
-            add(` ${k("↑↓ 1-9")} ${d("select •")} ${k("0/Esc")} ${d("custom")}`)
-          }
+  const lines = remembered.map((entry) => `- ${formatDecision(entry)}`).join("\n")
+  return `\nRemembered ask_user answers for this project (newest first); do not ask these again unless the situation changed:\n${lines}`
+}
+
+const AskHistoryParams = Type.Object({
+  query: Type.String({
+    description: "Keywords to match against remembered questions, choices, and answers (e.g. \"indentation tabs spaces\"). Empty lists the newest.",
+  }),
+  limit: Type.Optional(
+    Type.Number({ description: `Maximum decisions to return (default ${DEFAULT_HISTORY_LIMIT}, max ${MAX_HISTORY_LIMIT}).` }),
+  ),
+})
+
+type AskHistoryResult = { query: string; path: string; matches: DecisionEntry[] }
+
+function registerHistoryTool(pi: ExtensionAPI) {
+  pi.registerTool({
+    name: "ask_history",
+    label: "Ask History",
+    description:
+      "Search answers the user already gave to ask_user questions in this project. Call it before asking about a preference or convention, and reuse a matching answer instead of asking again.",
+    parameters: AskHistoryParams,
 
-          add(theme.fg("accent", "─".repeat(width)))
+    async execute(_toolCallId, params, _signal, _onUpdate, ctx) {
+      const path = decisionLogPath(ctx.cwd)
+      const limit = Math.max(1, Math.min(MAX_HISTORY_LIMIT, Math.floor(params.limit ?? DEFAULT_HISTORY_LIMIT)))
+      const matches = searchDecisions(readDecisions(path), params.query, limit)
+      const details: AskHistoryResult = { query: params.query, path, matches }
+
+      if (matches.length === 0) {
+        const about = params.query.trim() ? ` match "${params.query.trim()}"` : " exist yet"
+        return { content: [{ type: "text", text: `No remembered decisions${about}. Ask the user with ask_user if you need one.` }], details }
+      }
 
-          cachedLines = lines
-          return lines
+      const lines = matches.map((entry, i) => {
+        const choices = entry.choices.map((choice) => choice.label).join(" | ")
+        return `${i + 1}. ${formatDecision(entry)}\n   choices were: ${choices}`
+      })
+      return {
+        content: [{
+          type: "text",
+          text:
+            `Remembered decisions (${matches.length}):\n${lines.join("\n")}\n` +
+            "Reuse a matching answer instead of asking again; the user can edit or revoke these with /ask decisions.",
+        }],
+        details,
+      }
+    },
+
+    renderCall(args, theme) {
+      const query = args.query?.trim() ? args.query : "(newest)"
+      return new Text(`${theme.fg("toolTitle", theme.bold("ask_history "))}${theme.fg("muted", query)}`, 0, 0)
+    },
+
+    renderResult(result, _options, theme) {
+      const details = result.details as AskHistoryResult | undefined
+      if (!details) {
+        const first = result.content[0]
+        return new Text(first?.type === "text" ? first.text : "", 0, 0)
+      }
+
+      if (details.matches.length === 0) return new Text(theme.fg("muted", "No remembered decisions"), 0, 0)
+
+      const lines = details.matches.map(
+        (entry) => `${theme.fg("success", "✓ ")}${theme.fg("muted", `${entry.question} → `)}${theme.fg("accent", decisionAnswer(entry))}`,
+      )
+      return new Text(lines.join("\n"), 0, 0)
+    },
+  })
+}
+
+const DECISION_ACTION_NOTICES: Record<string, string> = {
+  "Edit answer": "Answer updated",
+  Revoke: "Decision revoked",
+  Restore: "Decision restored",
+  Delete: "Decision deleted",
+}
+
+// Review remembered answers: edit what the agent will see, revoke or restore, or delete outright
+async function openDecisionsView(ctx: ExtensionContext) {
+  const path = decisionLogPath(ctx.cwd)
+
+  while (true) {
+    const entries = readDecisions(path)
+    if (entries.length === 0) {
+      ctx.ui.notify(`No remembered decisions yet (${path})`, "info")
+      return
+    }
+
+    const superseded = supersededDecisionIds(entries)
+    const status = (entry: DecisionEntry) =>
+      superseded.has(entry.id) ? "[superseded] " : entry.revoked ? "[revoked] " : ""
+    const newestFirst = [...entries].reverse()
+    const options = newestFirst.map((entry, i) => `${i + 1}. ${status(entry)}${formatDecision(entry)}`)
+    const choice = await ctx.ui.select(`Decisions (${path})`, [...options, "Back"])
+    if (!choice || choice === "Back") return
+
+    const entry = newestFirst[options.indexOf(choice)]
+    if (!entry) continue
+
+    // A superseded answer is never shown to the agent, so editing or revoking it would do nothing
+    const actions = superseded.has(entry.id) ? ["Delete"] : ["Edit answer", entry.revoked ? "Restore" : "Revoke", "Delete"]
+    const action = await ctx.ui.select(formatDecision(entry), [...actions, "Back"])
+    if (!action || action === "Back") continue
+
+    let answer: string | undefined
+    if (action === "Edit answer") {
+      answer = (await ctx.ui.editor("Remembered answer", decisionAnswer(entry)))?.trim()
+      if (!answer) continue
+    }
+
+    try {
+      const found = updateDecision(path, entry.id, (current) => {
+        if (action === "Delete") return null
+        if (action === "Edit answer") return { ...current, editedAnswer: answer === current.result.answer ? undefined : answer }
+        return { ...current, revoked: action === "Revoke" ? true : undefined }
+      })
+      if (found) ctx.ui.notify(DECISION_ACTION_NOTICES[action] ?? "Saved", "success")
+      else ctx.ui.notify("That decision was removed from the log in the meantime", "warning")
+    } catch (error) {
+      ctx.ui.notify(`Could not save ${path}: ${error instanceof Error ? error.message : String(error)}`, "error")
+    }
+  }
+}
+
+function registerAskTool(pi: ExtensionAPI, name: string, label: string) {
+  pi.registerTool({
+    name,
+    label,
+    description:
+      "Ask the user a multiple-choice question in an interactive selector. Tab enables inline typing to add extra free text to the selected option. Pass `questions` to ask several related questions as one paged form.",
+    parameters: AskUserParams,
+
+    async execute(_toolCallId, params, signal, _onUpdate, ctx) {
+      const allowAdditionalText = params.allowAdditionalText !== false
+      const canCancel = params.canCancel !== false
+      const additionalTextLabel = params.additionalTextLabel?.trim() || "additional details"
+      const isForm = Array.isArray(params.questions) && params.questions.length > 0
+      const questions = isForm
+        ? params.questions!.map((question, i) => normalizeQuestion(question, i, allowAdditionalText))
+        : [normalizeQuestion({ ...params, id: "answer", choices: params.choices ?? [] }, 0, allowAdditionalText)]
+
+      const settings = loadSettings()
+      const empty = questions.find((question) => question.choices.length === 0)
+      if (empty) {
+        const where = isForm ? ` (question "${empty.id}")` : ""
+        return {
+          content: [{ type: "text", text: `Error: ask_user requires at least one choice${where}.` }],
+          details: makeResult(params.question, { cancelled: true }),
         }
+      }
+
+      // The countdown only runs if the user turned timeouts on; the call can only shorten or lengthen it
+      const { timeout } = settings
+      const requestedSeconds = params.timeoutSeconds && params.timeoutSeconds > 0 ? Math.ceil(params.timeoutSeconds) : null
+      const timeoutSeconds = timeout.enabled ? (requestedSeconds ?? timeout.seconds) : null
+
+      // Lets other extensions (e.g. terminal notifications) know we're blocked on the user
+      if (ctx.hasUI) pi.events.emit("pi-ext:awaiting-input", { title: params.question })
+
+      const warnings = new Set<string>()
+      const outcome = ctx.hasUI
+        ? await askInteractively(ctx, params.question, questions, isForm, additionalTextLabel, timeoutSeconds)
+        : await answerHeadless(questions, settings.headless, isForm, signal, (message) => warnings.add(message))
+      const warningNote = warnings.size ? `\n(Problems in the preset answers file: ${[...warnings].join("; ")})` : ""
 
+      if (!outcome) {
         return {
-          get focused() {
-            return focused
-          },
-          set focused(value: boolean) {
-            focused = value
-          },
-          render,
-          handleInput,
-          invalidate: () => {
-            cachedLines = undefined
-          },
+          content: [{
+            type: "text",
+            text:
+              "Error: ask_user requires interactive UI mode, and no headless answer source " +
+              `(preset answers file, RPC command, or policy in ${SETTINGS_PATH}) answered.${warningNote}`,
+          }],
+          details: makeResult(params.question, { cancelled: true }),
         }
-      })
+      }
+
+      if (settings.decisions.enabled) {
+        try {
+          recordDecisions(decisionLogPath(ctx.cwd), params.question, questions, outcome.answers)
+        } catch {
+          // An unwritable log shouldn't turn a good answer into a tool error
+        }
+      }
+
+      if (isForm) return formToolResult(params.question, questions, outcome, warningNote)
+
+      const [question] = questions
+      const result = outcome.freeformQuestion
+        ? makeResult(params.question, { freeformRequested: true })
+        : (outcome.answers[0] ?? makeResult(params.question, { cancelled: true }))
 
       if (result.cancelled) {
         return {
@@ -428,34 +1738,44 @@ function registerAskTool(pi: ExtensionAPI, name: string, label: string) {
 
       // Freeform: close ask UI, let user type in native editor
       if (result.freeformRequested) {
-        const freeformChoices = choices.map(c => ({ label: c.label, description: c.description }))
-        const choiceList = freeformChoices
-          .map((c, i) => c.description ? `  ${i + 1}. ${c.label} — ${c.description}` : `  ${i + 1}. ${c.label}`)
-          .join("\n")
+        const freeformChoices = question.choices.map(c => ({ label: c.label, description: c.description }))
         return {
           content: [{
             type: "text",
-            text: `User chose to write a custom response instead of picking from:\n${choiceList}\nDo NOT take action yet — wait for the user's next message.`,
+            text: `User chose to write a custom response instead of picking from:\n${formatChoiceList(question.choices)}\nDo NOT take action yet — wait for the user's next message.`,
           }],
           details: { ...result, freeformChoices },
         }
       }
 
+      const sourceNote = result.timedOut
+        ? `\n(No response within ${timeoutSeconds}s; the default choice was submitted automatically.)`
+        : formatSourceNote(result.source) + warningNote
+      if (question.multiSelect) {
+        const items = result.selections.map((selection) => `  ${formatSelection(selection)}`).join("\n")
+        const text = result.selections.length ? `User selected ${result.selections.length}:\n${items}` : "User selected none of the choices"
+        return { content: [{ type: "text", text: text + sourceNote }], details: result }
+      }
+
       const detailText = result.additionalText ? ` + details: ${result.additionalText}` : ""
       return {
-        content: [{ type: "text", text: `User selected ${result.selectedIndex}. ${result.selectedLabel}${detailText}` }],
+        content: [{ type: "text", text: `User selected ${result.selectedIndex}. ${result.selectedLabel}${detailText}${sourceNote}` }],
         details: result,
       }
     },
 
     renderCall(args, theme) {
       const count = Array.isArray(args.choices) ? args.choices.length : 0
-      const text = `${theme.fg("toolTitle", theme.bold(`${name} `))}${theme.fg("muted", args.question)}${theme.fg("dim", ` (${count} choices)`)}`
+      const kind = args.multiSelect ? "choices, multi-select" : "choices"
+      const summary = Array.isArray(args.questions) && args.questions.length
+        ? `${args.questions.length} questions`
+        : `${count} ${kind}`
+      const text = `${theme.fg("toolTitle", theme.bold(`${name} `))}${theme.fg("muted", args.question)}${theme.fg("dim", ` (${summary})`)}`
       return new Text(text, 0, 0)
     },
 
     renderResult(result, _options, theme) {
-      const details = result.details as AskResult | undefined
+      const details = result.details as AskResult | AskFormResult | undefined
       if (!details) {
         const first = result.content[0]
         return new Text(first?.type === "text" ? first.text : "", 0, 0)
@@ -465,6 +1785,17 @@ function registerAskTool(pi: ExtensionAPI, name: string, label: string) {
         return new Text(theme.fg("warning", "Cancelled"), 0, 0)
       }
 
+      if ("answers" in details) {
+        const lines = details.answers.map((answer) => {
+          const picked = answer.selections.map((selection) => selection.label).join(", ") || "none"
+          return `${theme.fg("success", "✓ ")}${theme.fg("muted", `${answer.id}: `)}${theme.fg("accent", picked)}${formatSourceTag(answer, theme)}`
+        })
+        if (details.freeformQuestionId) {
+          lines.push(theme.fg("dim", `Custom response for "${details.freeformQuestionId}" — type it below.`))
+        }
+        return new Text(lines.join("\n"), 0, 0)
+      }
+
       if (details.freeformRequested && details.freeformChoices) {
         const header = theme.fg("muted", "Options were:")
         const items = details.freeformChoices.map((c, i) => {
@@ -475,8 +1806,21 @@ function registerAskTool(pi: ExtensionAPI, name: string, label: string) {
         return new Text(`${header}\n${items}\n${footer}`, 0, 0)
       }
 
+      // Results saved before multi-select have no selections array
+      if (details.selections && details.selections.length === 0 && details.selectedIndex === null) {
+        return new Text(theme.fg("muted", "None selected"), 0, 0)
+      }
+
+      if ((details.selections?.length ?? 0) > 1) {
+        const lines = details.selections.map((selection) => {
+          const line = `${theme.fg("success", "✓ ")}${theme.fg("accent", `${selection.index}. ${selection.label}`)}`
+          return selection.additionalText ? `${line}\n${theme.fg("muted", `  details: ${selection.additionalText}`)}` : line
+        })
+        return new Text(lines.join("\n"), 0, 0)
+      }
+
       const choice = `${details.selectedIndex}. ${details.selectedLabel}`
-      const base = `${theme.fg("success", "✓ ")}${theme.fg("accent", choice)}`
+      const base = `${theme.fg("success", "✓ ")}${theme.fg("accent", choice)}${formatSourceTag(details, theme)}`
       if (!details.additionalText) return new Text(base, 0, 0)
 
       return new Text(`${base}\n${theme.fg("muted", `details: ${details.additionalText}`)}`, 0, 0)
@@ -485,16 +1829,28 @@ function registerAskTool(pi: ExtensionAPI, name: string, label: string) {
 }
 
 export default function piAsk(pi: ExtensionAPI) {
-  pi.on("before_agent_start", async (event) => {
-    return { systemPrompt: buildSystemPrompt(event.systemPrompt) }
+  // Tools are registered once, so whether the decision log is on is settled at startup too
+  const { decisions } = loadSettings()
+
+  pi.on("before_agent_start", async (event, ctx) => {
+    const remembered =
+      decisions.enabled && decisions.inject
+        ? buildDecisionPrompt(readDecisions(decisionLogPath(ctx.cwd)), decisions.injectLimit)
+        : ""
+    return { systemPrompt: buildSystemPrompt(event.systemPrompt, decisions.enabled) + remembered }
   })
 
   pi.registerCommand("ask", {
-    description: "Force a multiple-choice ask flow for a free-form prompt",
+    description: "Force a multiple-choice ask flow for a free-form prompt, or review remembered answers with /ask decisions",
     handler: async (args, ctx) => {
       const prompt = (args || "").trim()
       if (!prompt) {
-        ctx.ui.notify("Usage: /ask <what you want options about>", "warning")
+        ctx.ui.notify("Usage: /ask <what you want options about> | /ask decisions", "warning")
+        return
+      }
+
+      if (prompt === "decisions") {
+        await openDecisionsView(ctx)
         return
       }
 
@@ -519,4 +1875,5 @@ export default function piAsk(pi: ExtensionAPI) {
   })
 
   registerAskTool(pi, "ask_user", "Ask User")
+  if (decisions.enabled) registerHistoryTool(pi)
 }
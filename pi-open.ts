@@ -1,17 +1,153 @@
-import { existsSync, mkdirSync, readFileSync, statSync, writeFileSync } from "node:fs"
-import { spawnSync } from "node:child_process"
-import { homedir } from "node:os"
-import { dirname, extname, isAbsolute, resolve } from "node:path"
+import {
+  closeSync,
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  openSync,
+  readFileSync,
+  readSync,
+  readdirSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from "node:fs"
+import { spawn, spawnSync } from "node:child_process"
+import { createHash, randomBytes } from "node:crypto"
+import { createServer, type Server } from "node:http"
+import type { AddressInfo } from "node:net"
+import { homedir, tmpdir } from "node:os"
+import { basename, dirname, extname, isAbsolute, join, relative, resolve } from "node:path"
+import { pathToFileURL } from "node:url"
+import { setTimeout as sleep } from "node:timers/promises"
+import { getLanguageFromPath, highlightCode } from "@mariozechner/pi-coding-agent"
 import type { ExtensionAPI, ExtensionContext } from "@mariozechner/pi-coding-agent"
-import { Key } from "@mariozechner/pi-tui"
+import {
+  Key,
+  Markdown,
+  Text,
+  fuzzyMatch,
+  getCapabilities,
+  hyperlink,
+  matchesKey,
+  truncateToWidth,
+} from "@mariozechner/pi-tui"
+import { Type } from "@sinclair/typebox"
+import { Value } from "@sinclair/typebox/value"
 
-const MARKDOWN_EXTENSIONS = new Set([".md", ".markdown"])
 const SETTINGS_PATH = resolve(homedir(), ".pi/agent/pi-open.json")
+const PROJECT_SETTINGS_FILE = ".pi/pi-open.json"
+const HISTORY_PATH = resolve(homedir(), ".pi/agent/pi-open-history.json")
+const TRUST_PATH = resolve(homedir(), ".pi/agent/pi-open-trust.json")
+const MATCH_KINDS = ["ext", "glob", "mime"] as const
+const RUN_MODES = ["popup", "fullscreen", "background"] as const
+const HYPERLINK_MODES = ["file", "pi-open", "off"] as const
+const PANE_BACKENDS = ["tmux", "zellij", "kitty", "wezterm"] as const
+const POPUP_BACKENDS = ["auto", ...PANE_BACKENDS, "fullscreen"] as const
+const DEFAULT_POPUP: PopupSettings = { backend: "auto", width: "85%", height: "85%" }
+const LAYERED_KEYS = [
+  "editCommand",
+  "hyperlinks",
+  "diff",
+  "notifyAgentOfEdits",
+  "directoryOpener",
+  "urlOpener",
+  "popup",
+] as const
+// Keys that name commands to run; a project file only gets to set these once the user trusts it
+const PROJECT_COMMAND_KEYS = ["rules", "editCommand", "diff", "directoryOpener", "urlOpener"] as const
+const PANE_POLL_INTERVAL_MS = 200
+// How long a launched pane gets to start its shell before we give up on it
+const PANE_START_TIMEOUT_MS = 10_000
+const DEFAULT_RULES: OpenRule[] = [
+  { match: { kind: "ext", pattern: ".md,.markdown" }, command: "glow", args: "--pager {file}", mode: "popup" },
+  { match: { kind: "glob", pattern: "*" }, command: "micro", args: "{file}", mode: "popup" },
+]
+const DIFF_PRESETS: DiffViewer[] = [
+  { command: "delta", args: "{old} {file}" },
+  { command: "nvim", args: "-d {old} {file}" },
+  { command: "git", args: "difftool --no-prompt --no-index {old} {file}" },
+]
+const DIRECTORY_PRESETS = ["yazi", "ranger", "lf", "nnn"]
+const URL_PRESETS = [process.platform === "darwin" ? "open" : "xdg-open", "w3m", "lynx"]
 const DEFAULT_SETTINGS = {
-  markdownCommand: "glow",
-  defaultCommand: "micro",
   editCommand: "nvim",
+  hyperlinks: "pi-open",
+  diff: DIFF_PRESETS[0],
+  notifyAgentOfEdits: true,
+  directoryOpener: { command: DIRECTORY_PRESETS[0], args: "{file}", mode: "popup" },
+  urlOpener: { command: URL_PRESETS[0], args: "{file}", mode: "background" },
+  popup: DEFAULT_POPUP,
 } as const
+const USER_EDIT_MESSAGE_TYPE = "pi-open-user-edit"
+const literals = <T extends string>(values: readonly T[]) => Type.Union(values.map((value) => Type.Literal(value)))
+const OpenerSchema = Type.Object({
+  command: Type.String({ minLength: 1 }),
+  args: Type.Optional(Type.String()),
+  mode: Type.Optional(literals(RUN_MODES)),
+})
+const SettingsFileSchema = Type.Object(
+  {
+    rules: Type.Optional(
+      Type.Array(
+        Type.Object({
+          match: Type.Object({ kind: literals(MATCH_KINDS), pattern: Type.String({ minLength: 1 }) }),
+          command: Type.String({ minLength: 1 }),
+          args: Type.Optional(Type.String()),
+          mode: Type.Optional(literals(RUN_MODES)),
+        }),
+      ),
+    ),
+    editCommand: Type.Optional(Type.String({ minLength: 1 })),
+    hyperlinks: Type.Optional(literals(HYPERLINK_MODES)),
+    diff: Type.Optional(Type.Object({ command: Type.String({ minLength: 1 }), args: Type.Optional(Type.String()) })),
+    notifyAgentOfEdits: Type.Optional(Type.Boolean()),
+    directoryOpener: Type.Optional(OpenerSchema),
+    urlOpener: Type.Optional(OpenerSchema),
+    popup: Type.Optional(
+      Type.Object({
+        backend: Type.Optional(literals(POPUP_BACKENDS)),
+        width: Type.Optional(Type.String({ minLength: 1 })),
+        height: Type.Optional(Type.String({ minLength: 1 })),
+      }),
+    ),
+    markdownCommand: Type.Optional(Type.String()),
+    defaultCommand: Type.Optional(Type.String()),
+  },
+  { additionalProperties: false },
+)
+const OpenFileParams = Type.Object({
+  path: Type.String({ description: "File to show the user, relative to the working directory" }),
+  line: Type.Optional(Type.Number({ description: "Optional 1-based line to open at" })),
+  reason: Type.String({ description: "Short reason shown to the user, e.g. 'Review the migration plan'" }),
+})
+const MAX_USER_EDIT_DIFF_LINES = 80
+// Terminal editors that hold the pane until the user quits, so a changed file afterwards is their edit
+const TERMINAL_EDITORS = new Set(["nvim", "vim", "vi", "nano", "emacs", "emacsclient", "kak", "micro", "hx", "helix"])
+// path:42, path:42:7, path#L42, path#L42C7, path#L42-L50
+const POSITION_SUFFIX_PATTERN = /^(.+?)(?::(\d+)(?::(\d+))?|#L(\d+)(?:C(\d+))?(?:-L?\d+(?:C\d+)?)?)$/
+const POSITION_TEMPLATES: Record<string, string> = {
+  nvim: "+{line} {file}",
+  vim: "+{line} {file}",
+  vi: "+{line} {file}",
+  less: "+{line} {file}",
+  nano: "+{line},{col} {file}",
+  emacs: "+{line}:{col} {file}",
+  emacsclient: "+{line}:{col} {file}",
+  kak: "+{line}:{col} {file}",
+  micro: "{file}:{line}:{col}",
+  hx: "{file}:{line}:{col}",
+  helix: "{file}:{line}:{col}",
+  subl: "{file}:{line}:{col}",
+  zed: "{file}:{line}:{col}",
+  code: "--goto {file}:{line}:{col}",
+  "code-insiders": "--goto {file}:{line}:{col}",
+  codium: "--goto {file}:{line}:{col}",
+  cursor: "--goto {file}:{line}:{col}",
+}
+const URL_PATTERN = /^https?:\/\/\S+$/i
+// Stops at characters that usually close the markdown or prose around a link; `)` is
+// kept here and trimmed later only when unbalanced, so `wiki/Foo_(bar)` survives
+const URL_MENTION_PATTERN = /https?:\/\/[^\s<>"'`\]]+/gi
 const QUERY_STOP_WORDS = new Set([
   "a",
   "an",
@@ -38,36 +174,288 @@ const QUERY_STOP_WORDS = new Set([
   "agent",
 ])
 const MAX_MENTIONS = 50
+const MAX_TOUCHES = 50
+const MAX_HISTORY = 500
+const MAX_HISTORY_CONTEXT = 500
+const MAX_FRECENCY = 30
+const MAX_WORKSPACE_FILES = 20000
+const MAX_WORKSPACE_MATCHES = 200
+const WORKSPACE_INDEX_TTL_MS = 30_000
+const MAX_LINKED_LINES = 2000
+const HISTORY_SAVE_DELAY_MS = 2_000
+const PICKER_VISIBLE_ITEMS = 10
+const PICKER_PREVIEW_LINES = 12
+const PREVIEW_MAX_BYTES = 16 * 1024
+const ALWAYS_IGNORED_DIRS = new Set([".git", "node_modules"])
+const MODIFYING_TOUCHES = new Set<TouchKind>(["write", "edit"])
 
 type OpenContext = Pick<ExtensionContext, "cwd" | "hasUI" | "ui">
-type FileMention = { path: string; context: string }
+type FileMention = { path: string; context: string; line?: number; col?: number }
+type TouchKind = "read" | "write" | "edit" | "bash"
+type FileTouch = FilePosition & { path: string; kind: TouchKind; at: number }
+type HistoryEntry = {
+  path: string
+  context: string
+  mentionCount: number
+  openCount: number
+  lastMentionedAt: number | null
+  lastOpenedAt: number | null
+}
+type HistoryFile = { projects: Record<string, HistoryEntry[]> }
+type PickerItem = { path: string; absolutePath: string; recency: number | null; line?: number }
+type PickerResult = { item: PickerItem; action: "open" | "edit" }
+type IgnoreRule = { regex: RegExp; dirOnly: boolean; negated: boolean }
+type WorkspaceIndex = { cwd: string; files: Set<string>; builtAt: number; stale: boolean }
+type HyperlinkMode = (typeof HYPERLINK_MODES)[number]
+type PaneBackend = (typeof PANE_BACKENDS)[number]
+type PopupBackend = (typeof POPUP_BACKENDS)[number]
+type PopupSettings = { backend: PopupBackend; width: string; height: string }
+type PaneRunner = {
+  detect: () => boolean
+  // null means the backend couldn't launch and the caller should fall back
+  run: (commandName: string, args: string[], cwd: string, popup: PopupSettings) => Promise<number | null>
+}
+type MatchKind = (typeof MATCH_KINDS)[number]
+type RunMode = (typeof RUN_MODES)[number]
+type OpenRule = {
+  match: { kind: MatchKind; pattern: string }
+  command: string
+  args: string
+  mode: RunMode
+}
+type Opener = Pick<OpenRule, "command" | "args" | "mode">
+type DiffViewer = Pick<OpenRule, "command" | "args">
+type Snapshot = { content: string | null; at: number }
+type UserEdit = { path: string; diff: string | null; added: number; removed: number }
+type OpenOutcome = { absolutePath: string; edit: UserEdit | null }
+type OpenAttempt = { path: string; opener: Opener; ok: boolean }
+type OpenFileResult = { path: string; line: number | null; viewed: boolean; declined: boolean; edit: UserEdit | null }
+type FilePosition = { line?: number; col?: number }
+type PathWithPosition = FilePosition & { path: string }
+type LineLinker = (line: string) => string
+type LinkServer = { server: Server; uri: (target: PathWithPosition) => string }
 type OpenSettings = {
-  markdownCommand: string
-  defaultCommand: string
+  rules: OpenRule[]
   editCommand: string
+  hyperlinks: HyperlinkMode
+  diff: DiffViewer
+  notifyAgentOfEdits: boolean
+  directoryOpener: Opener
+  urlOpener: Opener
+  popup: PopupSettings
+}
+type LegacyOpenSettings = { markdownCommand?: string; defaultCommand?: string }
+type SettingsFile = Partial<OpenSettings> & LegacyOpenSettings
+type SettingsLayer = "global" | "project"
+type SettingsSource = SettingsLayer | "default"
+type LayeredKey = (typeof LAYERED_KEYS)[number]
+type ProjectCommandKey = (typeof PROJECT_COMMAND_KEYS)[number]
+// Project settings path → hash of the content the user trusted
+type TrustFile = { trusted: Record<string, string> }
+type LoadedSettings = {
+  settings: OpenSettings
+  sources: Record<LayeredKey, SettingsSource>
+  // Parallel to settings.rules
+  ruleLayers: SettingsLayer[]
+  files: Record<SettingsLayer, SettingsFile | null>
+  projectPath: string | null
+  projectHash: string | null
+  // Command keys the project file sets but that were ignored because it isn't trusted
+  untrustedKeys: ProjectCommandKey[]
+  errors: string[]
 }
 
-function loadSettingsFromDisk(): OpenSettings {
-  const fallback: OpenSettings = { ...DEFAULT_SETTINGS }
-  if (!existsSync(SETTINGS_PATH)) return fallback
+function parseRule(raw: unknown): OpenRule | null {
+  if (!raw || typeof raw !== "object") return null
 
-  try {
-    const raw = readFileSync(SETTINGS_PATH, "utf8")
-    const parsed = JSON.parse(raw) as Partial<OpenSettings>
+  const rule = raw as Partial<OpenRule>
+  const kind = rule.match?.kind
+  const pattern = rule.match?.pattern?.trim()
+  const command = rule.command?.trim()
+  if (!kind || !MATCH_KINDS.includes(kind) || !pattern || !command) return null
 
-    return {
-      markdownCommand: parsed.markdownCommand?.trim() || fallback.markdownCommand,
-      defaultCommand: parsed.defaultCommand?.trim() || fallback.defaultCommand,
-      editCommand: parsed.editCommand?.trim() || fallback.editCommand,
-    }
+  return {
+    match: { kind, pattern },
+    command,
+    args: rule.args?.trim() || "{file}",
+    mode: rule.mode && RUN_MODES.includes(rule.mode) ? rule.mode : "popup",
+  }
+}
+
+function parseOpener(raw: unknown, fallback: Opener): Opener {
+  if (!raw || typeof raw !== "object") return fallback
+
+  const opener = raw as Partial<Opener>
+  const command = opener.command?.trim()
+  if (!command) return fallback
+
+  return {
+    command,
+    args: opener.args?.trim() || "{file}",
+    mode: opener.mode && RUN_MODES.includes(opener.mode) ? opener.mode : fallback.mode,
+  }
+}
+
+// Sizes are passed through as is: "85%" everywhere, or cells for tmux and zellij
+function parsePopup(raw: unknown, fallback: PopupSettings): PopupSettings {
+  if (!raw || typeof raw !== "object") return fallback
+
+  const popup = raw as Partial<PopupSettings>
+  return {
+    backend: popup.backend && POPUP_BACKENDS.includes(popup.backend) ? popup.backend : fallback.backend,
+    width: popup.width?.trim() || fallback.width,
+    height: popup.height?.trim() || fallback.height,
+  }
+}
+
+// Settings files from before opener rules only had a markdown and a default command
+function migrateLegacyRules(legacy: LegacyOpenSettings): OpenRule[] {
+  const markdownCommand = legacy.markdownCommand?.trim() || "glow"
+  const defaultCommand = legacy.defaultCommand?.trim() || "micro"
+
+  return [
+    {
+      match: { kind: "ext", pattern: ".md,.markdown" },
+      command: markdownCommand,
+      args: markdownCommand === "glow" ? "--pager {file}" : "{file}",
+      mode: "popup",
+    },
+    { match: { kind: "glob", pattern: "*" }, command: defaultCommand, args: "{file}", mode: "popup" },
+  ]
+}
+
+// Walk up from cwd, stopping below $HOME so ~/.pi (the global config dir) is never a project
+function findProjectSettingsPath(cwd: string): string | null {
+  const home = homedir()
+  let dir = resolve(cwd)
+
+  while (dir !== home) {
+    const candidate = join(dir, PROJECT_SETTINGS_FILE)
+    if (existsSync(candidate)) return candidate
+
+    const parent = dirname(dir)
+    if (parent === dir) return null
+    dir = parent
+  }
+
+  return null
+}
+
+function readTrustFile(): TrustFile {
+  try {
+    if (!existsSync(TRUST_PATH)) return { trusted: {} }
+    const parsed = JSON.parse(readFileSync(TRUST_PATH, "utf8")) as Partial<TrustFile>
+    return { trusted: parsed.trusted ?? {} }
   } catch {
-    return fallback
+    return { trusted: {} }
+  }
+}
+
+// Trust is pinned to the content: any change to the file asks again
+function isProjectTrusted(path: string, hash: string | null): boolean {
+  return hash !== null && readTrustFile().trusted[path] === hash
+}
+
+function setProjectTrust(path: string, hash: string | null): void {
+  const file = readTrustFile()
+  if (hash) file.trusted[path] = hash
+  else delete file.trusted[path]
+
+  mkdirSync(dirname(TRUST_PATH), { recursive: true })
+  writeFileSync(TRUST_PATH, `${JSON.stringify(file, null, 2)}\n`, "utf8")
+}
+
+function readSettingsFile(path: string): { file: SettingsFile | null; errors: string[] } {
+  if (!existsSync(path)) return { file: null, errors: [] }
+
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(readFileSync(path, "utf8"))
+  } catch (error) {
+    return { file: null, errors: [`${path}: invalid JSON (${error instanceof Error ? error.message : String(error)})`] }
+  }
+
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    return { file: null, errors: [`${path}: expected a JSON object`] }
+  }
+
+  // Invalid values are reported, then ignored key by key by applySettingsFile
+  const errors = Array.from(Value.Errors(SettingsFileSchema, parsed), (error) => `${path} ${error.path || "/"}: ${error.message}`)
+  return { file: parsed as SettingsFile, errors }
+}
+
+function applySettingsFile(base: OpenSettings, file: SettingsFile): OpenSettings {
+  return {
+    rules: base.rules,
+    editCommand: file.editCommand?.trim() || base.editCommand,
+    hyperlinks: HYPERLINK_MODES.includes(file.hyperlinks as HyperlinkMode)
+      ? (file.hyperlinks as HyperlinkMode)
+      : base.hyperlinks,
+    diff: file.diff?.command?.trim()
+      ? { command: file.diff.command.trim(), args: file.diff.args?.trim() || "{old} {file}" }
+      : base.diff,
+    notifyAgentOfEdits: typeof file.notifyAgentOfEdits === "boolean" ? file.notifyAgentOfEdits : base.notifyAgentOfEdits,
+    directoryOpener: parseOpener(file.directoryOpener, base.directoryOpener),
+    urlOpener: parseOpener(file.urlOpener, base.urlOpener),
+    popup: parsePopup(file.popup, base.popup),
+  }
+}
+
+function parseRules(raw: unknown): OpenRule[] {
+  return Array.isArray(raw) ? raw.map(parseRule).filter((rule): rule is OpenRule => rule !== null) : []
+}
+
+/**
+ * Defaults, then ~/.pi/agent/pi-open.json, then the nearest .pi/pi-open.json.
+ * Project rules are checked before global ones; every other key is replaced
+ * by the innermost layer that sets it. A cloned repo could ship a project
+ * file, so its commands are ignored until the user trusts that exact content.
+ */
+function loadSettings(cwd: string): LoadedSettings {
+  const projectPath = findProjectSettingsPath(cwd)
+  const global = readSettingsFile(SETTINGS_PATH)
+  const rawProject = projectPath ? readSettingsFile(projectPath) : { file: null, errors: [] }
+  const projectHash = projectPath && rawProject.file ? hashContent(readFileSync(projectPath, "utf8")) : null
+
+  const rawFile = rawProject.file
+  const untrustedKeys =
+    rawFile && projectPath && !isProjectTrusted(projectPath, projectHash)
+      ? PROJECT_COMMAND_KEYS.filter((key) => rawFile[key] !== undefined)
+      : []
+  const projectFile = rawFile && untrustedKeys.length
+    ? (Object.fromEntries(Object.entries(rawFile).filter(([key]) => !untrustedKeys.includes(key as ProjectCommandKey))) as SettingsFile)
+    : rawFile
+  const project = { file: projectFile, errors: rawProject.errors }
+
+  const globalRules = global.file
+    ? Array.isArray(global.file.rules)
+      ? parseRules(global.file.rules)
+      : migrateLegacyRules(global.file)
+    : DEFAULT_RULES
+  const projectRules = parseRules(project.file?.rules)
+
+  let settings: OpenSettings = { ...DEFAULT_SETTINGS, rules: [...projectRules, ...globalRules] }
+  if (global.file) settings = applySettingsFile(settings, global.file)
+  if (project.file) settings = applySettingsFile(settings, project.file)
+
+  const sourceOf = (key: LayeredKey): SettingsSource =>
+    project.file?.[key] !== undefined ? "project" : global.file?.[key] !== undefined ? "global" : "default"
+
+  return {
+    settings,
+    sources: Object.fromEntries(LAYERED_KEYS.map((key) => [key, sourceOf(key)])) as Record<LayeredKey, SettingsSource>,
+    ruleLayers: [...projectRules.map(() => "project" as const), ...globalRules.map(() => "global" as const)],
+    files: { global: global.file, project: rawFile },
+    projectPath,
+    projectHash,
+    untrustedKeys,
+    errors: [...global.errors, ...project.errors],
   }
 }
 
-function saveSettingsToDisk(settings: OpenSettings): void {
-  mkdirSync(dirname(SETTINGS_PATH), { recursive: true })
-  writeFileSync(SETTINGS_PATH, `${JSON.stringify(settings, null, 2)}\n`, "utf8")
+function saveSettingsFile(path: string, file: SettingsFile): void {
+  mkdirSync(dirname(path), { recursive: true })
+  writeFileSync(path, `${JSON.stringify(file, null, 2)}\n`, "utf8")
 }
 
 function normalizePathToken(token: string): string {
@@ -78,11 +466,31 @@ function normalizePathToken(token: string): string {
     .replace(/^@/, "")
 }
 
+function splitPathPosition(token: string): PathWithPosition {
+  const match = token.match(POSITION_SUFFIX_PATTERN)
+  if (!match) return { path: token }
+
+  const line = Number(match[2] ?? match[4])
+  const col = match[3] ?? match[5]
+  return { path: match[1], line, col: col ? Number(col) : undefined }
+}
+
+function formatTarget({ path, line, col }: PathWithPosition): string {
+  if (!line) return path
+  return col ? `${path}:${line}:${col}` : `${path}:${line}`
+}
+
+function isUrl(token: string): boolean {
+  return URL_PATTERN.test(token)
+}
+
+// URLs are targets too, but never paths: they skip the filesystem entirely
 function looksLikePath(token: string): boolean {
   if (!token || /\s/.test(token)) return false
-  if (token.startsWith("http://") || token.startsWith("https://")) return false
+  if (isUrl(token)) return false
 
-  return token.includes("/") || /\.[a-zA-Z0-9]{1,10}$/.test(token)
+  const { path } = splitPathPosition(token)
+  return path.includes("/") || /\.[a-zA-Z0-9]{1,10}$/.test(path)
 }
 
 function extractExplicitTargetPath(input: string): string | null {
@@ -97,7 +505,7 @@ function extractExplicitTargetPath(input: string): string | null {
   if (quotedPath && looksLikePath(normalizePathToken(quotedPath))) return quotedPath
 
   const firstToken = normalizePathToken(trimmed.split(/\s+/)[0] ?? "")
-  return looksLikePath(firstToken) ? firstToken : null
+  return isUrl(firstToken) || looksLikePath(firstToken) ? firstToken : null
 }
 
 function extractBangOpenPath(input: string): string | null {
@@ -130,31 +538,214 @@ function extractExistingPathMentions(text: string, cwd: string): FileMention[] {
     const normalized = normalizePathToken(token)
     if (!looksLikePath(normalized)) continue
 
-    const absolutePath = isAbsolute(normalized) ? normalized : resolve(cwd, normalized)
+    const { path, line, col } = splitPathPosition(normalized)
+    const absolutePath = isAbsolute(path) ? path : resolve(cwd, path)
     if (!existsSync(absolutePath)) continue
 
     const stats = statSync(absolutePath)
-    if (!stats.isFile()) continue
+    if (!stats.isFile() && !stats.isDirectory()) continue
     if (seen.has(absolutePath)) continue
 
     seen.add(absolutePath)
-    mentions.push({ path: normalized, context: text })
+    mentions.push({ path, context: text, line, col })
   }
 
   return mentions
 }
 
+// Drop trailing punctuation and any closing parens that have no opening partner in the URL
+function trimUrlMention(url: string): string {
+  let trimmed = url.replace(/[.,:;!?'"]+$/, "")
+  while (trimmed.endsWith(")") && trimmed.split(")").length > trimmed.split("(").length) {
+    trimmed = trimmed.slice(0, -1).replace(/[.,:;!?'"]+$/, "")
+  }
+  return trimmed
+}
+
+function extractUrlMentions(text: string): FileMention[] {
+  const urls = (text.match(URL_MENTION_PATTERN) ?? []).map(trimUrlMention)
+  return Array.from(new Set(urls), (url) => ({ path: url, context: text }))
+}
+
+function resolveMentionKey(path: string, cwd: string): string {
+  if (isUrl(path)) return path
+  return isAbsolute(path) ? path : resolve(cwd, path)
+}
+
+// Only the path itself is linked; surrounding quotes and punctuation stay as is
+function linkifyPathMentions(text: string, cwd: string, buildUri: (target: PathWithPosition) => string): string {
+  return text.replace(/\S+/g, (token) => {
+    const normalized = normalizePathToken(token)
+    if (!looksLikePath(normalized)) return token
+
+    const { path, line, col } = splitPathPosition(normalized)
+    const absolutePath = isAbsolute(path) ? path : resolve(cwd, path)
+    if (!existsSync(absolutePath)) return token
+
+    const stats = statSync(absolutePath)
+    if (!stats.isFile() && !stats.isDirectory()) return token
+
+    const start = token.indexOf(normalized)
+    if (start === -1) return token
+
+    const linked = hyperlink(normalized, buildUri({ path: absolutePath, line, col }))
+    return token.slice(0, start) + linked + token.slice(start + normalized.length)
+  })
+}
+
+/**
+ * Wrap existing file paths in a rendered line in OSC 8 hyperlinks. Only the text
+ * between SGR escapes is scanned, and lines that already carry links (markdown
+ * links) are left as they are.
+ */
+function linkifyRenderedLine(line: string, cwd: string, buildUri: (target: PathWithPosition) => string): string {
+  if (line.includes("\x1b]8;")) return line
+
+  return line
+    .split(/(\x1b\[[0-9;]*m)/)
+    .map((segment, i) => (i % 2 ? segment : linkifyPathMentions(segment, cwd, buildUri)))
+    .join("")
+}
+
+function createLineLinker(cwd: string, buildUri: (target: PathWithPosition) => string): LineLinker {
+  // Lines are rendered again on every frame, so each distinct line is linked once
+  const cache = new Map<string, string>()
+
+  return (line) => {
+    let linked = cache.get(line)
+    if (linked === undefined) {
+      if (cache.size >= MAX_LINKED_LINES) cache.clear()
+      linked = linkifyRenderedLine(line, cwd, buildUri)
+      cache.set(line, linked)
+    }
+    return linked
+  }
+}
+
+// pi draws assistant text with pi-tui's Markdown component and has no hook for it,
+// so links are added to the lines it renders and the stored message never changes
+let markdownLinker: LineLinker | null = null
+let markdownPatched = false
+
+function patchMarkdownRender(): void {
+  if (markdownPatched) return
+  markdownPatched = true
+
+  const render = Markdown.prototype.render
+  Markdown.prototype.render = function (this: Markdown, width: number): string[] {
+    const lines = render.call(this, width)
+    return markdownLinker ? lines.map(markdownLinker) : lines
+  }
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"]/g, (char) => `&#${char.charCodeAt(0)};`)
+}
+
+/**
+ * Serve clicked `pi-open` links on a loopback port. The terminal hands the link
+ * to the browser, which lands here; the random token keeps other pages from
+ * opening files.
+ */
+function startLinkServer(onOpen: (target: string) => void): Promise<LinkServer | null> {
+  const token = randomBytes(16).toString("hex")
+  const server = createServer((request, response) => {
+    const url = new URL(request.url ?? "/", "http://127.0.0.1")
+    const target = url.searchParams.get("target")
+    if (request.method !== "GET" || url.pathname !== `/${token}/open` || !target || isUrl(target)) {
+      response.writeHead(404).end()
+      return
+    }
+
+    response.writeHead(200, { "content-type": "text/html; charset=utf-8" })
+    response.end(`<!doctype html><title>pi-open</title><p>Opened ${escapeHtml(target)} in pi. You can close this tab.</p>`)
+    onOpen(target)
+  })
+
+  return new Promise((done) => {
+    server.once("error", () => done(null))
+    server.listen(0, "127.0.0.1", () => {
+      server.unref()
+      const { port } = server.address() as AddressInfo
+      done({
+        server,
+        uri: (target) => `http://127.0.0.1:${port}/${token}/open?target=${encodeURIComponent(formatTarget(target))}`,
+      })
+    })
+  })
+}
+
 function mergeMentions(existing: FileMention[], additions: FileMention[], cwd: string): FileMention[] {
   const byPath = new Map<string, FileMention>()
 
   for (const mention of [...additions, ...existing]) {
-    const absolutePath = isAbsolute(mention.path) ? mention.path : resolve(cwd, mention.path)
-    if (!byPath.has(absolutePath)) byPath.set(absolutePath, mention)
+    const key = resolveMentionKey(mention.path, cwd)
+    if (!byPath.has(key)) byPath.set(key, mention)
   }
 
   return Array.from(byPath.values()).slice(0, MAX_MENTIONS)
 }
 
+function recordTouch(existing: FileTouch[], touch: FileTouch): FileTouch[] {
+  return [touch, ...existing.filter((candidate) => candidate.path !== touch.path)].slice(0, MAX_TOUCHES)
+}
+
+/**
+ * Pull existing file paths out of a bash command line. Shell operators and
+ * redirections are split off so `cat a.ts > b.ts` yields both files.
+ */
+function extractBashPaths(command: string, cwd: string): string[] {
+  const tokens = command.split(/\s+|[|;&<>()]+/).map(normalizePathToken).filter(Boolean)
+  const paths: string[] = []
+
+  for (const token of tokens) {
+    if (token.startsWith("-") || !looksLikePath(token)) continue
+
+    const absolutePath = isAbsolute(token) ? token : resolve(cwd, token)
+    if (paths.includes(absolutePath)) continue
+    if (!existsSync(absolutePath) || !statSync(absolutePath).isFile()) continue
+
+    paths.push(absolutePath)
+  }
+
+  return paths
+}
+
+function touchedFilesFromToolResult(
+  toolName: string,
+  input: Record<string, unknown>,
+  details: unknown,
+  cwd: string,
+): FileTouch[] {
+  const at = Date.now()
+
+  if (toolName === "read" || toolName === "write" || toolName === "edit") {
+    const rawPath = typeof input.path === "string" ? input.path.replace(/^@/, "") : null
+    if (!rawPath) return []
+
+    const line =
+      toolName === "edit"
+        ? (details as { firstChangedLine?: number } | undefined)?.firstChangedLine
+        : toolName === "read" && typeof input.offset === "number"
+          ? input.offset
+          : undefined
+
+    const path = isAbsolute(rawPath) ? rawPath : resolve(cwd, rawPath)
+    return [{ path, kind: toolName, at, line }]
+  }
+
+  if (toolName === "bash" && typeof input.command === "string") {
+    return extractBashPaths(input.command, cwd).map((path) => ({ path, kind: "bash" as const, at }))
+  }
+
+  return []
+}
+
+function findLastTouch(touches: FileTouch[], modifiedOnly: boolean): FileTouch | null {
+  const candidates = modifiedOnly ? touches.filter((touch) => MODIFYING_TOUCHES.has(touch.kind)) : touches
+  return candidates.find((touch) => existsSync(touch.path)) ?? null
+}
+
 function tokenizeQuery(query: string): string[] {
   return query
     .toLowerCase()
@@ -181,236 +772,1809 @@ function scoreMention(mention: FileMention, tokens: string[]): number {
   }, 0)
 }
 
-function findMentionForQuery(mentions: FileMention[], query: string): FileMention | null {
-  if (!mentions.length) return null
-
+type MentionBoost = (mention: FileMention) => number
+
+/**
+ * Rank by relevance, then blend in the boost (frecency). The boost only
+ * reorders mentions that already match; it never makes a mismatch match.
+ */
+function rankMentions(
+  mentions: FileMention[],
+  query: string,
+  boost?: MentionBoost,
+): { mention: FileMention; score: number }[] {
   const tokens = tokenizeQuery(query)
-  if (!tokens.length) return mentions[0] ?? null
 
-  const ranked = mentions
+  return mentions
     .map((mention) => ({ mention, score: scoreMention(mention, tokens) }))
     .filter((entry) => entry.score > 0)
+    .map((entry) => ({ ...entry, score: entry.score + (boost?.(entry.mention) ?? 0) }))
     .sort((a, b) => b.score - a.score)
+}
+
+function findMentionForQuery(mentions: FileMention[], query: string, boost?: MentionBoost): FileMention | null {
+  if (!mentions.length) return null
+  if (!tokenizeQuery(query).length) return mentions[0] ?? null
 
-  return ranked[0]?.mention ?? null
+  return rankMentions(mentions, query, boost)[0]?.mention ?? null
 }
 
-function resolveOpenTarget(input: string, mentions: FileMention[]): string | null {
+// Ambiguous when nothing matches or the best matches are tied
+function isAmbiguousQuery(mentions: FileMention[], query: string, boost?: MentionBoost): boolean {
+  if (!tokenizeQuery(query).length) return false
+
+  const [first, second] = rankMentions(mentions, query, boost)
+  return !first || (!!second && second.score === first.score)
+}
+
+function resolveOpenTarget(input: string, mentions: FileMention[], boost?: MentionBoost): string | null {
   const explicitTarget = extractExplicitTargetPath(input)
   if (explicitTarget) return explicitTarget
 
-  return findMentionForQuery(mentions, input)?.path ?? null
+  const mention = findMentionForQuery(mentions, input, boost)
+  return mention ? formatTarget(mention) : null
 }
 
-function pickCommand(filePath: string, settings: OpenSettings): string {
-  return MARKDOWN_EXTENSIONS.has(extname(filePath).toLowerCase())
-    ? settings.markdownCommand
-    : settings.defaultCommand
+function readHistoryFile(): HistoryFile {
+  try {
+    if (!existsSync(HISTORY_PATH)) return { projects: {} }
+    const parsed = JSON.parse(readFileSync(HISTORY_PATH, "utf8")) as Partial<HistoryFile>
+    return { projects: parsed.projects ?? {} }
+  } catch {
+    return { projects: {} }
+  }
 }
 
-function shellQuote(value: string): string {
-  return `'${value.replace(/'/g, `'"'"'`)}'`
+// Entries for files that no longer exist are dropped on every load
+function loadHistory(cwd: string): HistoryEntry[] {
+  return (readHistoryFile().projects[cwd] ?? []).filter((entry) => entry.path && existsSync(entry.path))
 }
 
-function getCommandArgs(command: string, filePath: string): string[] {
-  return command === "glow" ? ["--pager", filePath] : [filePath]
+function sameHistoryEntry(a: HistoryEntry, b: HistoryEntry): boolean {
+  return (
+    a.mentionCount === b.mentionCount &&
+    a.openCount === b.openCount &&
+    a.lastMentionedAt === b.lastMentionedAt &&
+    a.lastOpenedAt === b.lastOpenedAt
+  )
 }
 
-function isTmuxAlive(): boolean {
-  const result = spawnSync("tmux", ["list-sessions"], { env: process.env, timeout: 2000 })
-  return result.status === 0
+function maxTime(a: number | null, b: number | null): number | null {
+  return a === null ? b : b === null ? a : Math.max(a, b)
 }
 
-function runInTmuxPopup(commandName: string, filePath: string, cwd: string): number {
-  const args = getCommandArgs(commandName, filePath).map(shellQuote).join(" ")
-  const command = `${commandName} ${args}`
+/**
+ * Combine this process's entries with the ones on disk, per path. `synced` is
+ * what this process last read or wrote, so counts add up what each session
+ * recorded since then, and an entry one side removed stays removed unless the
+ * other side used it again.
+ */
+function mergeHistory(ours: HistoryEntry[], disk: HistoryEntry[], synced: Map<string, HistoryEntry>): HistoryEntry[] {
+  const oursByPath = new Map(ours.map((entry) => [entry.path, entry]))
+  const diskByPath = new Map(disk.map((entry) => [entry.path, entry]))
+  const merged: HistoryEntry[] = []
+
+  for (const path of new Set([...oursByPath.keys(), ...diskByPath.keys()])) {
+    const mine = oursByPath.get(path)
+    const theirs = diskByPath.get(path)
+    const base = synced.get(path)
+
+    if (mine && theirs) {
+      const start = base ?? { mentionCount: 0, openCount: 0 }
+      merged.push({
+        ...theirs,
+        context: base && sameHistoryEntry(mine, base) ? theirs.context : mine.context,
+        mentionCount: theirs.mentionCount + mine.mentionCount - start.mentionCount,
+        openCount: theirs.openCount + mine.openCount - start.openCount,
+        lastMentionedAt: maxTime(mine.lastMentionedAt, theirs.lastMentionedAt),
+        lastOpenedAt: maxTime(mine.lastOpenedAt, theirs.lastOpenedAt),
+      })
+    } else if (mine) {
+      if (!base || !sameHistoryEntry(mine, base)) merged.push(mine)
+    } else if (theirs) {
+      // Another session's entries for deleted files are pruned here as on load
+      if (base ? !sameHistoryEntry(theirs, base) : existsSync(path)) merged.push(theirs)
+    }
+  }
 
-  const result = spawnSync(
-    "tmux",
-    ["display-popup", "-E", "-d", cwd, "-w", "85%", "-h", "85%", command],
-    { cwd, env: process.env },
-  )
+  return merged.sort((a, b) => lastUsedAt(b) - lastUsedAt(a)).slice(0, MAX_HISTORY)
+}
 
-  if (result.error && "code" in result.error && result.error.code === "ENOENT") return 127
-  return result.status ?? 1
+// Re-reads the file so a concurrent session's entries for this project survive
+function saveHistory(cwd: string, entries: HistoryEntry[], synced: Map<string, HistoryEntry>): HistoryEntry[] {
+  try {
+    const file = readHistoryFile()
+    const merged = mergeHistory(entries, file.projects[cwd] ?? [], synced)
+    if (merged.length) file.projects[cwd] = merged
+    else delete file.projects[cwd]
+
+    mkdirSync(dirname(HISTORY_PATH), { recursive: true })
+    writeFileSync(HISTORY_PATH, `${JSON.stringify(file, null, 2)}\n`, "utf8")
+    return merged
+  } catch {
+    // Ignore write errors; history is a convenience
+    return entries
+  }
 }
 
-async function runFullscreen(ctx: OpenContext, commandName: string, filePath: string): Promise<number> {
-  const exitCode = await ctx.ui.custom<number>((tui, _theme, _kb, done) => {
-    tui.stop()
-    process.stdout.write("\x1b[2J\x1b[H")
+function recordHistory(
+  entries: HistoryEntry[],
+  absolutePath: string,
+  kind: "mention" | "touch" | "open",
+  context = "",
+): HistoryEntry[] {
+  const now = Date.now()
+  const existing = entries.find((entry) => entry.path === absolutePath)
+  const base: HistoryEntry = existing ?? {
+    path: absolutePath,
+    context: "",
+    mentionCount: 0,
+    openCount: 0,
+    lastMentionedAt: null,
+    lastOpenedAt: null,
+  }
 
-    const result = spawnSync(commandName, getCommandArgs(commandName, filePath), {
-      stdio: "inherit",
-      env: process.env,
-      cwd: ctx.cwd,
-    })
+  // Agent reads and writes keep a file recent, but only text that names it counts as a mention
+  const next: HistoryEntry =
+    kind === "open"
+      ? { ...base, openCount: base.openCount + 1, lastOpenedAt: now }
+      : kind === "touch"
+        ? { ...base, context: base.context || context.slice(0, MAX_HISTORY_CONTEXT), lastMentionedAt: now }
+        : {
+            ...base,
+            context: context.slice(0, MAX_HISTORY_CONTEXT) || base.context,
+            mentionCount: base.mentionCount + 1,
+            lastMentionedAt: now,
+          }
+
+  return [next, ...entries.filter((entry) => entry !== existing)].slice(0, MAX_HISTORY)
+}
 
-    tui.start()
-    tui.requestRender(true)
+function lastUsedAt(entry: HistoryEntry): number {
+  return Math.max(entry.lastOpenedAt ?? 0, entry.lastMentionedAt ?? 0)
+}
 
-    if (result.error && "code" in result.error && result.error.code === "ENOENT") done(127)
-    else done(result.status ?? 1)
+/**
+ * Frecency in the spirit of Firefox's URL bar: a recency bucket weight times
+ * how often the file was used, with opens counting more than mentions.
+ */
+function frecencyScore(entry: HistoryEntry, now = Date.now()): number {
+  const ageHours = (now - lastUsedAt(entry)) / (60 * 60 * 1000)
+  const recencyWeight = ageHours < 1 ? 4 : ageHours < 24 ? 2 : ageHours < 24 * 7 ? 1 : ageHours < 24 * 30 ? 0.5 : 0.25
+  const frequency = 1 + entry.openCount * 2 + entry.mentionCount * 0.5
 
-    return { render: () => [], invalidate: () => {} }
-  })
+  return Math.min(MAX_FRECENCY, recencyWeight * frequency)
+}
 
-  return exitCode ?? 1
+function historyToMentions(entries: HistoryEntry[], cwd: string): FileMention[] {
+  const now = Date.now()
+  return [...entries]
+    .sort((a, b) => frecencyScore(b, now) - frecencyScore(a, now))
+    .map((entry) => ({ path: relative(cwd, entry.path) || entry.path, context: entry.context }))
 }
 
-async function openTarget(
-  target: string,
-  ctx: OpenContext,
-  settings: OpenSettings,
-  commandOverride?: string,
-): Promise<void> {
-  if (!ctx.hasUI) {
-    ctx.ui.notify("Open requires interactive mode", "warning")
-    return
-  }
+function formatAge(timestamp: number, now = Date.now()): string {
+  const minutes = Math.round((now - timestamp) / 60000)
+  if (minutes < 1) return "just now"
+  if (minutes < 60) return `${minutes}m ago`
 
-  const withoutAt = target.startsWith("@") ? target.slice(1) : target
-  const absolutePath = isAbsolute(withoutAt) ? withoutAt : resolve(ctx.cwd, withoutAt)
+  const hours = Math.round(minutes / 60)
+  if (hours < 24) return `${hours}h ago`
 
-  if (!existsSync(absolutePath)) {
-    ctx.ui.notify(`File not found: ${withoutAt}`, "error")
-    return
-  }
+  return new Date(timestamp).toLocaleDateString()
+}
 
-  const stats = statSync(absolutePath)
-  if (!stats.isFile()) {
-    ctx.ui.notify(`Not a file: ${withoutAt}`, "error")
-    return
+function globToRegExp(glob: string): RegExp {
+  let source = ""
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i]
+    // `**/` and `/**` span whole path segments only, so `**/log` doesn't match `catalog`
+    if (char === "*" && glob[i + 1] === "*" && glob[i + 2] === "/") {
+      source += "(?:.*/)?"
+      i += 2
+    } else if (char === "/" && glob.slice(i + 1) === "**") {
+      source += "(?:/.*)?"
+      break
+    } else if (char === "*" && glob[i + 1] === "*") {
+      source += ".*"
+      i += 1
+    } else if (char === "*") {
+      source += "[^/]*"
+    } else if (char === "?") {
+      source += "[^/]"
+    } else if (char === "{") {
+      const end = glob.indexOf("}", i)
+      if (end === -1) {
+        source += "\\{"
+        continue
+      }
+      const options = glob.slice(i + 1, end).split(",").map((option) => option.replace(/[.+^$()|[\]\\]/g, "\\$&"))
+      source += `(?:${options.join("|")})`
+      i = end
+    } else {
+      source += char.replace(/[.+^$()|[\]\\]/g, "\\$&")
+    }
   }
+  return new RegExp(`^${source}$`, "i")
+}
+
+function sniffMimeType(filePath: string): string | null {
+  const result = spawnSync("file", ["--brief", "--mime-type", filePath], { encoding: "utf8", timeout: 2000 })
+  if (result.status !== 0 || !result.stdout) return null
+  return result.stdout.trim() || null
+}
 
-  const commandName = commandOverride ?? pickCommand(absolutePath, settings)
-  const useTmux = !!process.env.TMUX && isTmuxAlive()
-  const exitCode = useTmux
-    ? runInTmuxPopup(commandName, absolutePath, ctx.cwd)
-    : await runFullscreen(ctx, commandName, absolutePath)
+function matchesRule(rule: OpenRule, filePath: string, cwd: string, getMime: () => string | null): boolean {
+  const patterns = rule.match.pattern.split(",").map((pattern) => pattern.trim()).filter(Boolean)
 
-  if (exitCode === 127) {
-    ctx.ui.notify(`${commandName} is not installed`, "error")
-  } else if (exitCode !== 0) {
-    ctx.ui.notify(`${commandName} exited with code ${exitCode}`, "warning")
+  if (rule.match.kind === "ext") {
+    const extension = extname(filePath).toLowerCase()
+    return patterns.some((pattern) => (pattern.startsWith(".") ? pattern : `.${pattern}`).toLowerCase() === extension)
   }
-}
 
-export default function (pi: ExtensionAPI) {
-  let recentMentions: FileMention[] = []
-  let settings: OpenSettings = loadSettingsFromDisk()
+  if (rule.match.kind === "glob") {
+    // Patterns without a slash match the file name anywhere, like .gitignore
+    const relativePath = relative(cwd, filePath)
+    return patterns.some((pattern) =>
+      globToRegExp(pattern).test(pattern.includes("/") ? relativePath : basename(filePath)),
+    )
+  }
 
-  const openSettingsPage = async (ctx: ExtensionContext) => {
-    while (true) {
-      const choice = await ctx.ui.select(`Open settings (${SETTINGS_PATH})`, [
-        `.md/.markdown command: ${settings.markdownCommand}`,
-        `.* default command: ${settings.defaultCommand}`,
-        `Alt+E edit command: ${settings.editCommand}`,
-        "Done",
-      ])
+  const mime = getMime()
+  if (!mime) return false
+  return patterns.some((pattern) => globToRegExp(pattern).test(mime))
+}
 
-      if (!choice || choice === "Done") return
+function pickRule(filePath: string, cwd: string, rules: OpenRule[]): OpenRule {
+  let mime: string | null | undefined
+  const getMime = () => (mime === undefined ? (mime = sniffMimeType(filePath)) : mime)
 
-      if (choice.startsWith(".md/.markdown")) {
-        const value = await ctx.ui.input("Command for .md/.markdown files", settings.markdownCommand)
-        if (value === undefined) continue
+  return rules.find((rule) => matchesRule(rule, filePath, cwd, getMime)) ?? DEFAULT_RULES[DEFAULT_RULES.length - 1]
+}
 
-        const next = value.trim()
-        if (!next) {
-          ctx.ui.notify("Command cannot be empty", "warning")
-          continue
-        }
+function describeOpener(opener: Opener): string {
+  return `${opener.command} ${opener.args} [${opener.mode}]`
+}
 
-        settings = { ...settings, markdownCommand: next }
-        saveSettingsToDisk(settings)
-        ctx.ui.notify(`Saved .md command: ${next}`, "success")
-        continue
-      }
+function describePopup(popup: PopupSettings): string {
+  const detected = popup.backend === "auto" ? ` → ${detectPaneBackend(popup) ?? "fullscreen"}` : ""
+  return `${popup.backend}${detected}, ${popup.width}×${popup.height}`
+}
 
-      if (choice.startsWith(".* default")) {
-        const value = await ctx.ui.input("Default command for other files (.*)", settings.defaultCommand)
-        if (value === undefined) continue
+function describeRule(rule: OpenRule): string {
+  return `${rule.match.kind}:${rule.match.pattern} → ${describeOpener(rule)}`
+}
 
-        const next = value.trim()
-        if (!next) {
-          ctx.ui.notify("Command cannot be empty", "warning")
-          continue
-        }
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'"'"'`)}'`
+}
 
-        settings = { ...settings, defaultCommand: next }
-        saveSettingsToDisk(settings)
-        ctx.ui.notify(`Saved default command: ${next}`, "success")
-        continue
-      }
+/**
+ * Expand an argument template like "--pager {file}" or "+{line} {file}".
+ * Splitting happens before substitution, so paths with spaces stay one argument.
+ * Arguments that still reference a missing {line}/{col} are dropped entirely.
+ * {old} is only set for diff viewers and points at the pre-edit snapshot.
+ */
+function expandArgs(template: string, filePath: string, position: FilePosition = {}, oldPath?: string): string[] {
+  const values: Record<string, string | undefined> = {
+    file: filePath,
+    line: position.line?.toString(),
+    col: position.col?.toString(),
+    old: oldPath,
+  }
 
-      const value = await ctx.ui.input("Command used by Alt+E edit shortcut", settings.editCommand)
-      if (value === undefined) continue
+  return template
+    .split(/\s+/)
+    .filter(Boolean)
+    .flatMap((rawArg) => {
+      // "{file}:{line}:{col}" degrades to "{file}:{line}" or "{file}" as values go missing
+      const arg = rawArg.replace(/[:,]\{(line|col)\}/g, (segment, name: string) =>
+        values[name] === undefined ? "" : segment,
+      )
+      const placeholders = Array.from(arg.matchAll(/\{(file|line|col|old)\}/g), (match) => match[1])
+      if (placeholders.some((name) => values[name] === undefined)) return []
+      return [arg.replace(/\{(file|line|col|old)\}/g, (_match, name: string) => values[name] ?? "")]
+    })
+}
 
-      const next = value.trim()
-      if (!next) {
-        ctx.ui.notify("Command cannot be empty", "warning")
-        continue
-      }
+function parseGitignore(content: string): IgnoreRule[] {
+  return content
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith("#"))
+    .map((line) => {
+      const negated = line.startsWith("!")
+      let pattern = negated ? line.slice(1) : line
+      const dirOnly = pattern.endsWith("/")
+      if (dirOnly) pattern = pattern.slice(0, -1)
+
+      // Patterns without an inner slash match at any depth below the .gitignore
+      const anchored = pattern.includes("/")
+      pattern = pattern.replace(/^\//, "")
+      const regex = globToRegExp(anchored ? pattern : `**/${pattern}`)
+      return { regex, dirOnly, negated }
+    })
+}
 
-      settings = { ...settings, editCommand: next }
-      saveSettingsToDisk(settings)
-      ctx.ui.notify(`Saved edit command: ${next}`, "success")
-    }
+function isIgnored(relativePath: string, isDirectory: boolean, rules: IgnoreRule[]): boolean {
+  let ignored = false
+  for (const rule of rules) {
+    if (rule.dirOnly && !isDirectory) continue
+    if (rule.regex.test(relativePath)) ignored = !rule.negated
   }
+  return ignored
+}
 
-  pi.on("session_start", async () => {
-    settings = loadSettingsFromDisk()
-  })
+/**
+ * Walk the tree like git would: honour .gitignore files at every level and
+ * always skip .git and node_modules.
+ */
+function walkWorkspaceFiles(cwd: string): string[] {
+  const files: string[] = []
+  const stack: { dir: string; rules: { base: string; rules: IgnoreRule[] }[] }[] = [{ dir: cwd, rules: [] }]
+
+  while (stack.length && files.length < MAX_WORKSPACE_FILES) {
+    const { dir, rules: inherited } = stack.pop()!
+    const gitignorePath = join(dir, ".gitignore")
+    const rules = existsSync(gitignorePath)
+      ? [...inherited, { base: dir, rules: parseGitignore(readFileSync(gitignorePath, "utf8")) }]
+      : inherited
+
+    let entries
+    try {
+      entries = readdirSync(dir, { withFileTypes: true })
+    } catch {
+      continue
+    }
 
-  pi.on("message_end", async (event, ctx) => {
-    if (event.message.role !== "assistant") return
+    for (const entry of entries) {
+      const absolutePath = join(dir, entry.name)
+      const isDirectory = entry.isDirectory()
+      if (isDirectory && ALWAYS_IGNORED_DIRS.has(entry.name)) continue
+      if (rules.some(({ base, rules }) => isIgnored(relative(base, absolutePath), isDirectory, rules))) continue
 
-    const text = extractAssistantTextContent((event.message as { content?: unknown }).content)
-    if (!text) return
+      if (isDirectory) stack.push({ dir: absolutePath, rules })
+      else if (entry.isFile()) files.push(relative(cwd, absolutePath))
+    }
+  }
 
-    const mentions = extractExistingPathMentions(text, ctx.cwd)
-    if (!mentions.length) return
+  return files.slice(0, MAX_WORKSPACE_FILES)
+}
 
-    recentMentions = mergeMentions(recentMentions, mentions, ctx.cwd)
+function listWorkspaceFiles(cwd: string): string[] {
+  const result = spawnSync("git", ["ls-files", "--cached", "--others", "--exclude-standard"], {
+    cwd,
+    encoding: "utf8",
+    maxBuffer: 64 * 1024 * 1024,
+    timeout: 5000,
   })
 
-  pi.on("input", async (event, ctx) => {
-    if (event.source !== "interactive") return { action: "continue" } as const
+  if (result.status === 0 && result.stdout) {
+    return result.stdout.split("\n").filter(Boolean).slice(0, MAX_WORKSPACE_FILES)
+  }
 
-    const bangTarget = extractBangOpenPath(event.text)
-    if (!bangTarget) return { action: "continue" } as const
+  return walkWorkspaceFiles(cwd)
+}
 
-    await openTarget(bangTarget, ctx, settings)
-    return { action: "handled" } as const
-  })
+/**
+ * Score every indexed file against the query like a mention with no context,
+ * keeping only the best matches so huge trees don't flood the ranking.
+ */
+function searchWorkspaceFiles(files: Iterable<string>, query: string): FileMention[] {
+  const tokens = tokenizeQuery(query)
+  if (!tokens.length) return []
 
-  pi.registerCommand("open", {
-    description: "Open @file/query, or run /open settings to configure editor commands",
-    handler: async (args, ctx) => {
-      if (args.trim() === "settings") {
-        await openSettingsPage(ctx)
-        return
-      }
+  const matches: { mention: FileMention; score: number }[] = []
+  for (const path of files) {
+    const mention = { path, context: "" }
+    const score = scoreMention(mention, tokens)
+    if (score > 0) matches.push({ mention, score })
+  }
 
-      const target = resolveOpenTarget(args, recentMentions)
-      if (!target) {
-        ctx.ui.notify("Usage: /open @path/to/file, /open <query>, or /open settings", "warning")
-        return
-      }
+  return matches
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_WORKSPACE_MATCHES)
+    .map(({ mention }) => mention)
+}
 
-      await openTarget(target, ctx, settings)
-    },
+function readPreview(filePath: string): string | null {
+  let fd: number | undefined
+  try {
+    fd = openSync(filePath, "r")
+    const buffer = Buffer.alloc(PREVIEW_MAX_BYTES)
+    const bytesRead = readSync(fd, buffer, 0, PREVIEW_MAX_BYTES, 0)
+    const chunk = buffer.subarray(0, bytesRead)
+    return chunk.includes(0) ? null : chunk.toString("utf8")
+  } catch {
+    return null
+  } finally {
+    if (fd !== undefined) closeSync(fd)
+  }
+}
+
+// Directory entries, folders first and marked with a trailing slash
+function readDirectoryPreview(dirPath: string): string[] | null {
+  try {
+    if (!statSync(dirPath).isDirectory()) return null
+    return readdirSync(dirPath, { withFileTypes: true })
+      .sort((a, b) => Number(b.isDirectory()) - Number(a.isDirectory()) || a.name.localeCompare(b.name))
+      .map((entry) => (entry.isDirectory() ? `${entry.name}/` : entry.name))
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Rank picker items by fuzzy match against the path, nudged by recency so
+ * files the agent just mentioned or touched float above the rest of the tree.
+ * Every whitespace-separated word of the query has to match on its own.
+ */
+function rankPickerItems(items: PickerItem[], query: string): PickerItem[] {
+  const words = query.trim().split(/\s+/).filter(Boolean)
+  if (!words.length) return items
+
+  return items
+    .map((item) => ({ item, matches: words.map((word) => fuzzyMatch(word, item.path)) }))
+    .filter(({ matches }) => matches.every((match) => match.matches))
+    .map(({ item, matches }) => ({
+      item,
+      score:
+        matches.reduce((total, match) => total + match.score, 0) -
+        (item.recency === null ? 0 : Math.max(0, 30 - item.recency)),
+    }))
+    .sort((a, b) => a.score - b.score)
+    .map(({ item }) => item)
+}
+
+async function pickFile(ctx: OpenContext, items: PickerItem[], initialQuery: string): Promise<PickerResult | null> {
+  const previewCache = new Map<string, string[] | null>()
+
+  const getPreview = (item: PickerItem): string[] | null => {
+    if (!previewCache.has(item.absolutePath)) {
+      const listing = readDirectoryPreview(item.absolutePath)
+      const text = listing === null ? readPreview(item.absolutePath) : null
+      const lines = listing ?? (text === null ? null : highlightCode(text, getLanguageFromPath(item.absolutePath)))
+      previewCache.set(item.absolutePath, lines)
+    }
+    return previewCache.get(item.absolutePath) ?? null
+  }
+
+  const result = await ctx.ui.custom<PickerResult | null>((tui, theme, _kb, done) => {
+    let query = initialQuery
+    let selectedIndex = 0
+    let scrollOffset = 0
+    let ranked = rankPickerItems(items, query)
+    let cachedLines: string[] | undefined
+
+    function refresh() {
+      cachedLines = undefined
+      tui.requestRender()
+    }
+
+    function setQuery(next: string) {
+      query = next
+      ranked = rankPickerItems(items, query)
+      selectedIndex = 0
+      scrollOffset = 0
+      refresh()
+    }
+
+    function moveSelection(delta: number) {
+      if (!ranked.length) return
+      selectedIndex = Math.max(0, Math.min(ranked.length - 1, selectedIndex + delta))
+      if (selectedIndex < scrollOffset) scrollOffset = selectedIndex
+      if (selectedIndex >= scrollOffset + PICKER_VISIBLE_ITEMS) scrollOffset = selectedIndex - PICKER_VISIBLE_ITEMS + 1
+      refresh()
+    }
+
+    function submit(action: PickerResult["action"]) {
+      const item = ranked[selectedIndex]
+      if (item) done({ item, action })
+    }
+
+    function handleInput(data: string) {
+      if (matchesKey(data, Key.escape)) {
+        done(null)
+        return
+      }
+
+      if (matchesKey(data, Key.enter)) {
+        submit("open")
+        return
+      }
+
+      if (matchesKey(data, Key.alt("e"))) {
+        submit("edit")
+        return
+      }
+
+      if (matchesKey(data, Key.up)) {
+        moveSelection(-1)
+        return
+      }
+
+      if (matchesKey(data, Key.down)) {
+        moveSelection(1)
+        return
+      }
+
+      if (matchesKey(data, Key.backspace)) {
+        if (query) setQuery(query.slice(0, -1))
+        return
+      }
+
+      // Accept typed characters and pasted text (bracketed or not), minus control characters
+      const pasted = data.replace(/\x1b\[20[01]~/g, "")
+      const printable = pasted.replace(/[\x00-\x1f\x7f]/g, "")
+      if (printable && !pasted.startsWith("\x1b")) setQuery(query + printable)
+    }
+
+    function render(width: number): string[] {
+      if (cachedLines) return cachedLines
+
+      const lines: string[] = []
+      const add = (line: string) => lines.push(truncateToWidth(line, width))
+
+      add(theme.fg("accent", "─".repeat(width)))
+      add(` ${theme.fg("muted", "Open:")} ${theme.fg("text", query)}${theme.fg("accent", "▏")}`)
+      lines.push("")
+
+      if (!ranked.length) {
+        add(theme.fg("dim", "  No matching files"))
+      }
+
+      const visible = ranked.slice(scrollOffset, scrollOffset + PICKER_VISIBLE_ITEMS)
+      visible.forEach((item, i) => {
+        const isSelected = scrollOffset + i === selectedIndex
+        const prefix = isSelected ? theme.fg("accent", "> ") : "  "
+        const label = theme.fg(isSelected ? "accent" : "text", item.path)
+        const marker = item.recency !== null ? theme.fg("dim", " •recent") : ""
+        add(`${prefix}${label}${marker}`)
+      })
+
+      if (ranked.length > PICKER_VISIBLE_ITEMS) {
+        add(theme.fg("dim", `  ${selectedIndex + 1}/${ranked.length}`))
+      }
+
+      const selected = ranked[selectedIndex]
+      if (selected) {
+        lines.push("")
+        add(theme.fg("muted", ` ${selected.path}`))
+        const preview = getPreview(selected)
+        if (!preview) {
+          add(theme.fg("dim", "  (binary or unreadable file)"))
+        } else {
+          for (const line of preview.slice(0, PICKER_PREVIEW_LINES)) add(`  ${line}`)
+        }
+      }
+
+      lines.push("")
+      const k = (key: string) => theme.fg("muted", key)
+      const d = (desc: string) => theme.fg("dim", desc)
+      add(` ${k("type")} ${d("filter •")} ${k("↑↓")} ${d("select •")} ${k("Enter")} ${d("open •")} ${k("Alt+E")} ${d("edit •")} ${k("Esc")} ${d("cancel")}`)
+      add(theme.fg("accent", "─".repeat(width)))
+
+      cachedLines = lines
+      return lines
+    }
+
+    return {
+      render,
+      handleInput,
+      invalidate: () => {
+        cachedLines = undefined
+      },
+    }
+  })
+
+  return result ?? null
+}
+
+function isTmuxAlive(): boolean {
+  const result = spawnSync("tmux", ["list-sessions"], { env: process.env, timeout: 2000 })
+  return result.status === 0
+}
+
+function runInTmuxPopup(commandName: string, args: string[], cwd: string, popup: PopupSettings): number {
+  const command = [commandName, ...args].map(shellQuote).join(" ")
+
+  const result = spawnSync(
+    "tmux",
+    ["display-popup", "-E", "-d", cwd, "-w", popup.width, "-h", popup.height, command],
+    { cwd, env: process.env },
+  )
+
+  if (result.error && "code" in result.error && result.error.code === "ENOENT") return 127
+  return result.status ?? 1
+}
+
+/**
+ * zellij, kitty, and wezterm return as soon as the pane exists, so the command
+ * reports its exit code through a status file that we poll for. Closing the
+ * pane (SIGHUP) counts as exit code 129. The shell also records its pid, so a
+ * pane killed without running the trap (SIGKILL) counts as 137 instead of
+ * hanging, as does one whose shell never starts. Returns null if the pane
+ * could not be launched, e.g. kitty without remote control enabled.
+ */
+async function runInPane(
+  launcher: string,
+  launcherArgs: (script: string) => string[],
+  commandName: string,
+  args: string[],
+  cwd: string,
+): Promise<number | null> {
+  const statusDir = mkdtempSync(join(tmpdir(), "pi-open-pane-"))
+  const statusPath = shellQuote(join(statusDir, "status"))
+  const pendingPath = shellQuote(join(statusDir, "status.tmp"))
+  const pidPath = join(statusDir, "pid")
+  const command = [commandName, ...args].map(shellQuote).join(" ")
+  const report = (code: string) => `printf %s ${code} > ${pendingPath}; mv ${pendingPath} ${statusPath}`
+  const trap = `trap '${report("129").replace(/'/g, `'"'"'`)}; exit 129' HUP TERM`
+  const script = `echo $$ > ${shellQuote(`${pidPath}.tmp`)}; mv ${shellQuote(`${pidPath}.tmp`)} ${shellQuote(pidPath)}; ${trap}; ${command}; code=$?; ${report('"$code"')}`
+
+  try {
+    const launched = spawnSync(launcher, launcherArgs(script), { cwd, env: process.env, timeout: 5000 })
+    if (launched.error || launched.status !== 0) return null
+
+    const finalPath = join(statusDir, "status")
+    const startedBy = Date.now() + PANE_START_TIMEOUT_MS
+    while (!existsSync(finalPath)) {
+      const pid = existsSync(pidPath) ? Number.parseInt(readFileSync(pidPath, "utf8"), 10) : Number.NaN
+      const gone = Number.isNaN(pid) ? Date.now() > startedBy : !isProcessAlive(pid)
+      // The status may land between the check above and the pid going away
+      if (gone && !existsSync(finalPath)) return 137
+      await sleep(PANE_POLL_INTERVAL_MS)
+    }
+
+    const exitCode = Number.parseInt(readFileSync(finalPath, "utf8").trim(), 10)
+    return Number.isNaN(exitCode) ? 1 : exitCode
+  } finally {
+    rmSync(statusDir, { recursive: true, force: true })
+  }
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0)
+    return true
+  } catch (error) {
+    // EPERM: it exists but belongs to someone else
+    return (error as NodeJS.ErrnoException).code === "EPERM"
+  }
+}
+
+// Percent sizes are centred; absolute sizes leave placement to zellij
+function zellijPaneArgs(script: string, cwd: string, popup: PopupSettings): string[] {
+  const args = ["run", "--floating", "--close-on-exit", "--name", "pi-open", "--cwd", cwd]
+  args.push("--width", popup.width, "--height", popup.height)
+
+  const width = popup.width.endsWith("%") ? Number.parseInt(popup.width, 10) : Number.NaN
+  const height = popup.height.endsWith("%") ? Number.parseInt(popup.height, 10) : Number.NaN
+  if (!Number.isNaN(width) && !Number.isNaN(height)) {
+    args.push("-x", `${Math.floor((100 - width) / 2)}%`, "-y", `${Math.floor((100 - height) / 2)}%`)
+  }
+
+  return [...args, "--", "sh", "-c", script]
+}
+
+const PANE_RUNNERS: Record<PaneBackend, PaneRunner> = {
+  tmux: {
+    detect: () => !!process.env.TMUX && isTmuxAlive(),
+    run: async (commandName, args, cwd, popup) => runInTmuxPopup(commandName, args, cwd, popup),
+  },
+  zellij: {
+    detect: () => process.env.ZELLIJ !== undefined,
+    run: (commandName, args, cwd, popup) =>
+      runInPane("zellij", (script) => zellijPaneArgs(script, cwd, popup), commandName, args, cwd),
+  },
+  kitty: {
+    // Overlays always cover the whole kitty window, so the popup size doesn't apply
+    detect: () => !!process.env.KITTY_WINDOW_ID,
+    run: (commandName, args, cwd) =>
+      runInPane(
+        "kitty",
+        (script) => ["@", "launch", "--type=overlay", "--title", "pi-open", "--cwd", cwd, "sh", "-c", script],
+        commandName,
+        args,
+        cwd,
+      ),
+  },
+  wezterm: {
+    detect: () => !!process.env.WEZTERM_PANE,
+    run: (commandName, args, cwd, popup) =>
+      runInPane(
+        "wezterm",
+        (script) => {
+          const percent = Number.parseInt(popup.height, 10) || Number.parseInt(DEFAULT_POPUP.height, 10)
+          return ["cli", "split-pane", "--bottom", "--percent", `${percent}`, "--cwd", cwd, "--", "sh", "-c", script]
+        },
+        commandName,
+        args,
+        cwd,
+      ),
+  },
+}
+
+// Innermost first: a tmux session inside kitty should get a tmux popup
+function detectPaneBackend(popup: PopupSettings): PaneBackend | null {
+  if (popup.backend === "fullscreen") return null
+  if (popup.backend !== "auto") return popup.backend
+  return PANE_BACKENDS.find((backend) => PANE_RUNNERS[backend].detect()) ?? null
+}
+
+async function runFullscreen(ctx: OpenContext, commandName: string, args: string[]): Promise<number> {
+  const exitCode = await ctx.ui.custom<number>((tui, _theme, _kb, done) => {
+    tui.stop()
+    process.stdout.write("\x1b[2J\x1b[H")
+
+    const result = spawnSync(commandName, args, {
+      stdio: "inherit",
+      env: process.env,
+      cwd: ctx.cwd,
+    })
+
+    tui.start()
+    tui.requestRender(true)
+
+    if (result.error && "code" in result.error && result.error.code === "ENOENT") done(127)
+    else done(result.status ?? 1)
+
+    return { render: () => [], invalidate: () => {} }
+  })
+
+  return exitCode ?? 1
+}
+
+function runInBackground(commandName: string, args: string[], cwd: string): Promise<number> {
+  return new Promise((resolvePromise) => {
+    const child = spawn(commandName, args, { cwd, env: process.env, stdio: "ignore", detached: true })
+    child.once("error", (error) => resolvePromise("code" in error && error.code === "ENOENT" ? 127 : 1))
+    child.once("spawn", () => {
+      child.unref()
+      resolvePromise(0)
+    })
+  })
+}
+
+/**
+ * Plain "{file}" templates get the command's own line/column syntax when a
+ * position is known (nvim +42, micro file:42:7, code --goto file:42:7, ...).
+ */
+function positionAwareArgs(opener: Opener, position?: FilePosition): string {
+  if (!position?.line || opener.args.trim() !== "{file}") return opener.args
+  return POSITION_TEMPLATES[basename(opener.command)] ?? opener.args
+}
+
+// Popups fall back to fullscreen when no pane backend is detected or it fails to launch
+async function runCommand(
+  ctx: OpenContext,
+  commandName: string,
+  args: string[],
+  mode: RunMode,
+  popup: PopupSettings,
+): Promise<number> {
+  if (mode === "background") return runInBackground(commandName, args, ctx.cwd)
+
+  const backend = mode === "popup" ? detectPaneBackend(popup) : null
+  const exitCode = backend ? await PANE_RUNNERS[backend].run(commandName, args, ctx.cwd, popup) : null
+  return exitCode ?? (await runFullscreen(ctx, commandName, args))
+}
+
+async function runOpener(
+  ctx: OpenContext,
+  opener: Opener,
+  filePath: string,
+  popup: PopupSettings,
+  position?: FilePosition,
+): Promise<number> {
+  const args = expandArgs(positionAwareArgs(opener, position), filePath, position)
+  return runCommand(ctx, opener.command, args, opener.mode, popup)
+}
+
+function readSnapshotContent(absolutePath: string): string | null {
+  try {
+    return existsSync(absolutePath) && statSync(absolutePath).isFile() ? readFileSync(absolutePath, "utf8") : null
+  } catch {
+    return null
+  }
+}
+
+let snapshotDir: string | null = null
+
+// mkdtemp creates the directory 0700 under a random name, so other users can't plant links in it or read it
+function getSnapshotDir(): string {
+  if (snapshotDir && existsSync(snapshotDir)) return snapshotDir
+
+  const dir = mkdtempSync(join(tmpdir(), "pi-open-snapshots-"))
+  process.once("exit", () => rmSync(dir, { recursive: true, force: true }))
+  snapshotDir = dir
+  return dir
+}
+
+// Keep the original extension so diff viewers pick the right syntax highlighting
+function writeSnapshotFile(absolutePath: string, snapshot: Snapshot): string {
+  const hash = createHash("sha1").update(absolutePath).digest("hex").slice(0, 10)
+  const snapshotPath = join(getSnapshotDir(), `${hash}-${basename(absolutePath)}`)
+  writeFileSync(snapshotPath, snapshot.content ?? "", "utf8")
+  return snapshotPath
+}
+
+function describeDiffViewer(viewer: DiffViewer): string {
+  return `${viewer.command} ${viewer.args}`
+}
+
+/**
+ * Show the snapshot-to-current diff. Diff tools exit 1 when files differ,
+ * so only "not installed" and exit codes above 1 count as failures.
+ */
+async function showDiff(
+  ctx: OpenContext,
+  viewer: DiffViewer,
+  popup: PopupSettings,
+  absolutePath: string,
+  snapshot: Snapshot,
+): Promise<void> {
+  const current = readSnapshotContent(absolutePath)
+  if (current === snapshot.content) {
+    ctx.ui.notify(`No changes since snapshot: ${relative(ctx.cwd, absolutePath) || absolutePath}`, "info")
+    return
+  }
+
+  const snapshotPath = writeSnapshotFile(absolutePath, snapshot)
+  // A deleted file diffs against an empty snapshot copy
+  const currentPath = current === null ? writeSnapshotFile(`${absolutePath}.deleted`, { content: "", at: 0 }) : absolutePath
+  const args = expandArgs(viewer.args, currentPath, {}, snapshotPath)
+
+  const exitCode = await runCommand(ctx, viewer.command, args, "popup", popup)
+
+  if (exitCode === 127) {
+    ctx.ui.notify(`${viewer.command} is not installed`, "error")
+  } else if (exitCode > 1) {
+    ctx.ui.notify(`${viewer.command} exited with code ${exitCode}`, "warning")
+  }
+}
+
+function resolveTargetPath(target: string, cwd: string): { absolutePath: string; position: FilePosition } {
+  const withoutAt = target.startsWith("@") ? target.slice(1) : target
+  const literalPath = isAbsolute(withoutAt) ? withoutAt : resolve(cwd, withoutAt)
+
+  // A file whose name really ends in ":42" wins over the position suffix
+  const { path, ...position } = existsSync(literalPath) ? { path: withoutAt } : splitPathPosition(withoutAt)
+  return { absolutePath: isAbsolute(path) ? path : resolve(cwd, path), position }
+}
+
+function hashContent(content: string | null): string | null {
+  return content === null ? null : createHash("sha1").update(content).digest("hex")
+}
+
+/**
+ * Summarize what the user changed via diff(1). The diff itself is left out
+ * when diff isn't available or the change is too large to be worth sending.
+ */
+function buildUserEdit(absolutePath: string, cwd: string, before: string | null, after: string | null): UserEdit {
+  const path = relative(cwd, absolutePath) || absolutePath
+  const beforePath = writeSnapshotFile(absolutePath, { content: before, at: 0 })
+  const afterPath = writeSnapshotFile(`${absolutePath}.after`, { content: after, at: 0 })
+  const result = spawnSync("diff", ["-u", "--label", `a/${path}`, "--label", `b/${path}`, beforePath, afterPath], {
+    encoding: "utf8",
+    timeout: 5000,
+  })
+
+  const lines = result.status === 1 && result.stdout ? result.stdout.trimEnd().split("\n") : []
+  const added = lines.filter((line) => line.startsWith("+") && !line.startsWith("+++")).length
+  const removed = lines.filter((line) => line.startsWith("-") && !line.startsWith("---")).length
+  const diff = lines.length && lines.length <= MAX_USER_EDIT_DIFF_LINES ? lines.join("\n") : null
+
+  return { path, diff, added, removed }
+}
+
+function formatUserEditMessage(edit: UserEdit): string {
+  const note =
+    `The user edited ${edit.path} in their external editor (+${edit.added} -${edit.removed} lines). ` +
+    "Your view of this file is stale: re-read it before making further changes, and keep the user's edits."
+
+  return edit.diff ? `${note}\n\n\`\`\`diff\n${edit.diff}\n\`\`\`` : note
+}
+
+function reportExitCode(ctx: OpenContext, commandName: string, exitCode: number): boolean {
+  if (exitCode === 127) {
+    ctx.ui.notify(`${commandName} is not installed`, "error")
+    return false
+  }
+
+  if (exitCode !== 0) {
+    ctx.ui.notify(`${commandName} exited with code ${exitCode}`, "warning")
+    return false
+  }
+
+  return true
+}
+
+async function openTarget(
+  target: string,
+  ctx: OpenContext,
+  settings: OpenSettings,
+  openerOverride?: Opener,
+): Promise<OpenAttempt | null> {
+  if (!ctx.hasUI) {
+    ctx.ui.notify("Open requires interactive mode", "warning")
+    return null
+  }
+
+  const withoutAt = target.startsWith("@") ? target.slice(1) : target
+
+  // Editor overrides (Alt+E) make no sense for links, so URLs always use the URL opener
+  if (isUrl(withoutAt)) {
+    const exitCode = await runOpener(ctx, settings.urlOpener, withoutAt, settings.popup)
+    return { path: withoutAt, opener: settings.urlOpener, ok: reportExitCode(ctx, settings.urlOpener.command, exitCode) }
+  }
+
+  const { absolutePath, position } = resolveTargetPath(target, ctx.cwd)
+
+  if (!existsSync(absolutePath)) {
+    ctx.ui.notify(`File not found: ${withoutAt}`, "error")
+    return null
+  }
+
+  const stats = statSync(absolutePath)
+  if (!stats.isFile() && !stats.isDirectory()) {
+    ctx.ui.notify(`Not a file or directory: ${withoutAt}`, "error")
+    return null
+  }
+
+  if (stats.isDirectory()) {
+    const opener = openerOverride ?? settings.directoryOpener
+    const exitCode = await runOpener(ctx, opener, absolutePath, settings.popup)
+    return { path: absolutePath, opener, ok: reportExitCode(ctx, opener.command, exitCode) }
+  }
+
+  const opener = openerOverride ?? pickRule(absolutePath, ctx.cwd, settings.rules)
+  const exitCode = await runOpener(ctx, opener, absolutePath, settings.popup, position)
+  return { path: absolutePath, opener, ok: reportExitCode(ctx, opener.command, exitCode) }
+}
+
+// Background commands return before the editor exits and viewers don't write, so only a
+// waiting terminal editor can leave edits behind by the time it returns
+function waitsForEditor(opener: Opener, settings: OpenSettings): boolean {
+  if (opener.mode === "background") return false
+  const command = basename(opener.command)
+  return TERMINAL_EDITORS.has(command) || command === basename(settings.editCommand)
+}
+
+export default function (pi: ExtensionAPI) {
+  let recentMentions: FileMention[] = []
+  let recentTouches: FileTouch[] = []
+  let history: HistoryEntry[] = []
+  // Content of each file before the agent's first write/edit this session
+  const snapshots = new Map<string, Snapshot>()
+  let historyCwd: string | null = null
+  let historySaveTimer: ReturnType<typeof setTimeout> | null = null
+  // History entries as last read from or written to disk, by path
+  let syncedHistory = new Map<string, HistoryEntry>()
+  let workspaceIndex: WorkspaceIndex | null = null
+  let loaded = loadSettings(process.cwd())
+  let settings = loaded.settings
+  // Layer that /open settings writes to
+  let editLayer: SettingsLayer = "global"
+
+  // Built on first use, then rebuilt when stale; agent writes are added in place
+  const getWorkspaceFiles = (cwd: string): Set<string> => {
+    const expired = !workspaceIndex || Date.now() - workspaceIndex.builtAt > WORKSPACE_INDEX_TTL_MS
+    if (!workspaceIndex || workspaceIndex.cwd !== cwd || workspaceIndex.stale || expired) {
+      workspaceIndex = { cwd, files: new Set(listWorkspaceFiles(cwd)), builtAt: Date.now(), stale: false }
+    }
+    return workspaceIndex.files
+  }
+
+  const updateWorkspaceIndex = (touches: FileTouch[], cwd: string) => {
+    if (!workspaceIndex || workspaceIndex.cwd !== cwd) return
+
+    for (const touch of touches) {
+      // bash can create, move, or delete anything, so the next query rebuilds
+      if (touch.kind === "bash") workspaceIndex.stale = true
+      else if (touch.kind === "write" && workspaceIndex.files.size < MAX_WORKSPACE_FILES) {
+        workspaceIndex.files.add(relative(cwd, touch.path) || touch.path)
+      }
+    }
+  }
+
+  /**
+   * Mentions to resolve a query against: recent mentions when any match (or
+   * the query names a path), otherwise the best matches across the workspace.
+   */
+  const queryCandidates = (query: string, cwd: string, boost: MentionBoost): FileMention[] => {
+    if (extractExplicitTargetPath(query) || !tokenizeQuery(query).length) return recentMentions
+    if (rankMentions(recentMentions, query, boost).length) return recentMentions
+    return searchWorkspaceFiles(getWorkspaceFiles(cwd), query)
+  }
+
+  const flushHistory = () => {
+    if (historySaveTimer) clearTimeout(historySaveTimer)
+    historySaveTimer = null
+    if (!historyCwd) return
+    history = saveHistory(historyCwd, history, syncedHistory)
+    syncedHistory = new Map(history.map((entry) => [entry.path, entry]))
+  }
+
+  // Every message and tool result can record mentions, so writes are batched
+  const persistHistory = () => {
+    if (historySaveTimer) return
+    historySaveTimer = setTimeout(flushHistory, HISTORY_SAVE_DELAY_MS)
+    historySaveTimer.unref?.()
+  }
+
+  const recordMentions = (mentions: FileMention[], cwd: string, kind: "mention" | "touch" = "mention") => {
+    // History is pruned of paths that no longer exist, so URLs only live in the recent list
+    for (const mention of mentions) {
+      if (isUrl(mention.path)) continue
+      const absolutePath = isAbsolute(mention.path) ? mention.path : resolve(cwd, mention.path)
+      history = recordHistory(history, absolutePath, kind, mention.context)
+    }
+    recentMentions = mergeMentions(recentMentions, mentions, cwd)
+    persistHistory()
+  }
+
+  // Clicked `pi-open` links arrive outside any event, so they use the current session's context
+  let linkServer: LinkServer | null = null
+  let linkCtx: ExtensionContext | null = null
+
+  const updateMarkdownLinker = async (ctx: ExtensionContext) => {
+    linkCtx = ctx
+    // Terminals without OSC 8 support would print the raw escapes, so keep plain text there
+    if (!ctx.hasUI || settings.hyperlinks === "off" || !getCapabilities().hyperlinks) {
+      markdownLinker = null
+      return
+    }
+
+    patchMarkdownRender()
+    if (settings.hyperlinks === "file") {
+      markdownLinker = createLineLinker(ctx.cwd, ({ path }) => pathToFileURL(path).href)
+      return
+    }
+
+    linkServer ??= await startLinkServer((target) => {
+      if (linkCtx) void openAndRecord(target, linkCtx)
+    })
+    if (!linkServer) ctx.ui.notify("pi-open could not listen for link clicks; file paths stay plain text", "warning")
+    markdownLinker = linkServer ? createLineLinker(ctx.cwd, linkServer.uri) : null
+  }
+
+  const frecencyBoost = (cwd: string): MentionBoost => {
+    const now = Date.now()
+    const byPath = new Map(history.map((entry) => [entry.path, entry]))
+    return (mention) => {
+      const entry = byPath.get(isAbsolute(mention.path) ? mention.path : resolve(cwd, mention.path))
+      return entry ? frecencyScore(entry, now) : 0
+    }
+  }
+
+  /**
+   * Open a target, remember it in history, and tell the agent (on its next
+   * turn) if the user changed the file while it was open.
+   */
+  const openAndRecord = async (
+    target: string,
+    ctx: ExtensionContext,
+    opener?: Opener,
+    { announceEdits = true } = {},
+  ): Promise<OpenOutcome | null> => {
+    const before = ctx.hasUI ? readSnapshotContent(resolveTargetPath(target, ctx.cwd).absolutePath) : null
+    const attempt = await openTarget(target, ctx, settings, opener)
+    if (!attempt) return null
+
+    const { path: opened, ok } = attempt
+    if (isUrl(opened)) return ok ? { absolutePath: opened, edit: null } : null
+
+    if (ok) {
+      history = recordHistory(history, opened, "open")
+      persistHistory()
+    }
+
+    // The exit code says nothing about the file: vim exits 1 after `:cq` even when an earlier `:w` saved it
+    const after = waitsForEditor(attempt.opener, settings) ? readSnapshotContent(opened) : before
+    if (hashContent(before) === hashContent(after)) return ok ? { absolutePath: opened, edit: null } : null
+
+    const edit = buildUserEdit(opened, ctx.cwd, before, after)
+    if (announceEdits && settings.notifyAgentOfEdits) {
+      pi.sendMessage(
+        { customType: USER_EDIT_MESSAGE_TYPE, content: formatUserEditMessage(edit), display: true, details: edit },
+        { deliverAs: "nextTurn" },
+      )
+    }
+
+    return { absolutePath: opened, edit }
+  }
+
+  pi.registerMessageRenderer<UserEdit>(USER_EDIT_MESSAGE_TYPE, (message, _options, theme) => {
+    const edit = message.details
+    const summary = edit ? `${edit.path} (+${edit.added} -${edit.removed})` : "file"
+    return new Text(theme.fg("muted", `✎ Agent will be told you edited ${summary}`), 0, 0)
+  })
+
+  pi.registerTool({
+    name: "open_file",
+    label: "Open File",
+    description:
+      "Show a file to the user in their configured viewer/editor (e.g. a generated report or a plan). The user confirms first. Returns whether they viewed it and a diff of any edits they made.",
+    parameters: OpenFileParams,
+
+    async execute(_toolCallId, params, _signal, _onUpdate, ctx) {
+      const path = params.path.replace(/^@/, "")
+      const line = params.line && params.line > 0 ? Math.floor(params.line) : null
+      const makeResult = (overrides: Partial<OpenFileResult> = {}): OpenFileResult => ({
+        path,
+        line,
+        viewed: false,
+        declined: false,
+        edit: null,
+        ...overrides,
+      })
+
+      if (!ctx.hasUI) {
+        return {
+          content: [{ type: "text", text: "Error: open_file requires interactive UI mode." }],
+          details: makeResult(),
+        }
+      }
+
+      const absolutePath = isAbsolute(path) ? path : resolve(ctx.cwd, path)
+      if (!existsSync(absolutePath)) {
+        return {
+          content: [{ type: "text", text: `Error: file not found: ${path}` }],
+          details: makeResult(),
+        }
+      }
+
+      const target = formatTarget({ path, line: line ?? undefined })
+      pi.events.emit("pi-ext:awaiting-input", { title: `Open ${target}?` })
+
+      const confirmed = await ctx.ui.confirm(`Agent wants to show you ${target}`, params.reason)
+      if (!confirmed) {
+        return {
+          content: [{ type: "text", text: `The user declined to open ${path}.` }],
+          details: makeResult({ declined: true }),
+        }
+      }
+
+      // The edit goes back in this tool result, so no separate next-turn message
+      const outcome = await openAndRecord(target, ctx, undefined, { announceEdits: false })
+      if (!outcome) {
+        return {
+          content: [{ type: "text", text: `Error: could not open ${path}; the opener failed or is not installed.` }],
+          details: makeResult(),
+        }
+      }
+
+      const text = outcome.edit
+        ? formatUserEditMessage(outcome.edit)
+        : `The user viewed ${path} and made no changes.`
+      return { content: [{ type: "text", text }], details: makeResult({ viewed: true, edit: outcome.edit }) }
+    },
+
+    renderCall(args, theme) {
+      const target = formatTarget({ path: args.path, line: args.line })
+      const reason = args.reason ? theme.fg("dim", ` — ${args.reason}`) : ""
+      return new Text(`${theme.fg("toolTitle", theme.bold("open_file "))}${theme.fg("muted", target)}${reason}`, 0, 0)
+    },
+
+    renderResult(result, _options, theme) {
+      const details = result.details as OpenFileResult | undefined
+      if (!details) {
+        const first = result.content[0]
+        return new Text(first?.type === "text" ? first.text : "", 0, 0)
+      }
+
+      if (details.declined) return new Text(theme.fg("warning", "Declined"), 0, 0)
+      if (!details.viewed) {
+        const first = result.content[0]
+        return new Text(theme.fg("error", first?.type === "text" ? first.text : "Not opened"), 0, 0)
+      }
+
+      const edit = details.edit
+      if (!edit) return new Text(`${theme.fg("success", "✓ ")}${theme.fg("accent", `Viewed ${details.path}`)}`, 0, 0)
+      return new Text(
+        `${theme.fg("success", "✎ ")}${theme.fg("accent", `Edited ${edit.path}`)}${theme.fg("muted", ` (+${edit.added} -${edit.removed})`)}`,
+        0,
+        0,
+      )
+    },
+  })
+
+  const layerPath = (layer: SettingsLayer, cwd: string) =>
+    layer === "global" ? SETTINGS_PATH : (loaded.projectPath ?? join(cwd, PROJECT_SETTINGS_FILE))
+
+  // Writes one key into a single layer file, leaving the rest of that file untouched
+  const saveSetting = <K extends keyof SettingsFile>(
+    ctx: ExtensionContext,
+    key: K,
+    value: SettingsFile[K],
+    layer = editLayer,
+  ): boolean => {
+    const path = layerPath(layer, ctx.cwd)
+    const file = loaded.files[layer]
+    if (!file && existsSync(path)) {
+      ctx.ui.notify(`Fix ${path} before saving to it`, "error")
+      return false
+    }
+
+    // Ignored commands aren't in settings, so writing one back would drop the rest
+    if (layer === "project" && loaded.untrustedKeys.length && (PROJECT_COMMAND_KEYS as readonly string[]).includes(key)) {
+      ctx.ui.notify(`Trust ${path} from /open settings before changing its commands`, "warning")
+      return false
+    }
+
+    // Writing a trusted project file (or one with nothing to distrust) keeps it trusted
+    const keepTrust = layer === "project" && !loaded.untrustedKeys.length
+    saveSettingsFile(path, { ...file, [key]: value })
+    if (keepTrust) setProjectTrust(path, hashContent(readFileSync(path, "utf8")))
+    loaded = loadSettings(ctx.cwd)
+    settings = loaded.settings
+    return true
+  }
+
+  const projectHasCommands = () => PROJECT_COMMAND_KEYS.some((key) => loaded.files.project?.[key] !== undefined)
+
+  // Asks before a project file's commands are used, remembering the answer for this exact content
+  const promptProjectTrust = async (ctx: ExtensionContext) => {
+    const { projectPath, projectHash, untrustedKeys } = loaded
+    if (!projectPath || !untrustedKeys.length) return
+
+    const trusted = await ctx.ui.confirm(
+      "Trust this project's open commands?",
+      `${projectPath} sets ${untrustedKeys.join(", ")}, which run commands when files are opened. Only trust repositories you control.`,
+    )
+    if (!trusted) {
+      ctx.ui.notify(`Ignoring commands from ${projectPath}; trust it later from /open settings`, "warning")
+      return
+    }
+
+    setProjectTrust(projectPath, projectHash)
+    loaded = loadSettings(ctx.cwd)
+    settings = loaded.settings
+  }
+
+  const rulesOfLayer = (layer: SettingsLayer) => settings.rules.filter((_rule, i) => loaded.ruleLayers[i] === layer)
+
+  const promptRule = async (ctx: ExtensionContext, base?: OpenRule): Promise<OpenRule | null> => {
+    const kind = await ctx.ui.select("Match files by", [
+      "ext — extensions, e.g. .png,.jpg",
+      "glob — path pattern, e.g. logs/**/*.log",
+      "mime — sniffed MIME type, e.g. image/*",
+    ])
+    if (!kind) return null
+
+    const matchKind = kind.split(" ")[0] as MatchKind
+    const pattern = (await ctx.ui.input(`${matchKind} pattern (comma-separated)`, base?.match.pattern ?? ""))?.trim()
+    if (!pattern) return null
+
+    const command = (await ctx.ui.input("Command", base?.command ?? ""))?.trim()
+    if (!command) return null
+
+    const args = (await ctx.ui.input("Arguments ({file}, {line}, {col})", base?.args ?? "{file}"))?.trim()
+    if (args === undefined) return null
+
+    const mode = await ctx.ui.select("Run mode", [...RUN_MODES])
+    if (!mode) return null
+
+    return { match: { kind: matchKind, pattern }, command, args: args || "{file}", mode: mode as RunMode }
+  }
+
+  const promptOpener = async (
+    ctx: ExtensionContext,
+    title: string,
+    current: Opener,
+    presets: string[],
+  ): Promise<Opener | null> => {
+    const preset = await ctx.ui.select(title, [...presets, "Custom…"])
+    if (!preset) return null
+
+    const command = preset === "Custom…" ? (await ctx.ui.input("Command", current.command))?.trim() : preset
+    if (!command) return null
+
+    const args = (await ctx.ui.input("Arguments ({file} = directory or URL)", current.args))?.trim()
+    if (args === undefined) return null
+
+    const mode = await ctx.ui.select("Run mode", [...RUN_MODES])
+    if (!mode) return null
+
+    return { command, args: args || "{file}", mode: mode as RunMode }
+  }
+
+  const openRulesPage = async (ctx: ExtensionContext) => {
+    while (true) {
+      const options = settings.rules.map((rule, i) => `${i + 1}. [${loaded.ruleLayers[i]}] ${describeRule(rule)}`)
+      const choice = await ctx.ui.select("Opener rules (first match wins)", [...options, "Add rule", "Back"])
+      if (!choice || choice === "Back") return
+
+      if (choice === "Add rule") {
+        const rule = await promptRule(ctx)
+        if (!rule) continue
+
+        // New rules go before a trailing catch-all so they can actually match
+        const rules = rulesOfLayer(editLayer)
+        const last = rules[rules.length - 1]
+        const insertAt = last?.match.kind === "glob" && last.match.pattern === "*" ? rules.length - 1 : rules.length
+        rules.splice(insertAt, 0, rule)
+        if (saveSetting(ctx, "rules", rules)) ctx.ui.notify(`Added ${editLayer} rule: ${describeRule(rule)}`, "success")
+        continue
+      }
+
+      const index = options.indexOf(choice)
+      const rule = settings.rules[index]
+      const layer = loaded.ruleLayers[index]
+      if (!rule || !layer) continue
+
+      // Rules are edited and reordered within the layer file they come from
+      const rules = rulesOfLayer(layer)
+      const layerIndex = loaded.ruleLayers.slice(0, index).filter((candidate) => candidate === layer).length
+
+      const action = await ctx.ui.select(describeRule(rule), ["Edit", "Move up", "Move down", "Delete", "Back"])
+      if (!action || action === "Back") continue
+
+      if (action === "Edit") {
+        const next = await promptRule(ctx, rule)
+        if (!next) continue
+
+        rules[layerIndex] = next
+        if (saveSetting(ctx, "rules", rules, layer)) ctx.ui.notify(`Saved rule: ${describeRule(next)}`, "success")
+        continue
+      }
+
+      if (action === "Delete") {
+        rules.splice(layerIndex, 1)
+        if (saveSetting(ctx, "rules", rules, layer)) ctx.ui.notify("Rule deleted", "success")
+        continue
+      }
+
+      const target = action === "Move up" ? layerIndex - 1 : layerIndex + 1
+      if (target < 0 || target >= rules.length) continue
+
+      rules.splice(target, 0, ...rules.splice(layerIndex, 1))
+      saveSetting(ctx, "rules", rules, layer)
+    }
+  }
+
+  const openSettingsPage = async (ctx: ExtensionContext) => {
+    while (true) {
+      const from = (key: LayeredKey) => ` [${loaded.sources[key]}]`
+      const ruleCounts = (["project", "global"] as const).map((layer) => `${rulesOfLayer(layer).length} ${layer}`)
+      const trust = loaded.untrustedKeys.length ? `ignored (${loaded.untrustedKeys.join(", ")})` : "trusted"
+      const choice = await ctx.ui.select(`Open settings (saving to ${layerPath(editLayer, ctx.cwd)})`, [
+        `Save changes to: ${editLayer}`,
+        ...(projectHasCommands() ? [`Project commands: ${trust}`] : []),
+        `Opener rules: ${ruleCounts.join(", ")}`,
+        `Alt+E edit command: ${settings.editCommand}${from("editCommand")}`,
+        `Hyperlinks: ${settings.hyperlinks}${from("hyperlinks")}`,
+        `Diff viewer: ${describeDiffViewer(settings.diff)}${from("diff")}`,
+        `Tell agent about my edits: ${settings.notifyAgentOfEdits ? "on" : "off"}${from("notifyAgentOfEdits")}`,
+        `Directories: ${describeOpener(settings.directoryOpener)}${from("directoryOpener")}`,
+        `URLs: ${describeOpener(settings.urlOpener)}${from("urlOpener")}`,
+        `Popup: ${describePopup(settings.popup)}${from("popup")}`,
+        "Done",
+      ])
+
+      if (!choice || choice === "Done") return
+
+      if (choice.startsWith("Save changes to")) {
+        const value = await ctx.ui.select("Save changes to", [
+          `global — ${SETTINGS_PATH}`,
+          `project — ${layerPath("project", ctx.cwd)}`,
+        ])
+        if (value) editLayer = value.startsWith("project") ? "project" : "global"
+        continue
+      }
+
+      if (choice.startsWith("Opener rules")) {
+        await openRulesPage(ctx)
+        continue
+      }
+
+      if (choice.startsWith("Project commands")) {
+        if (loaded.untrustedKeys.length) {
+          await promptProjectTrust(ctx)
+        } else if (loaded.projectPath) {
+          setProjectTrust(loaded.projectPath, null)
+          loaded = loadSettings(ctx.cwd)
+          settings = loaded.settings
+          ctx.ui.notify(`Stopped trusting ${loaded.projectPath}`, "info")
+        }
+        continue
+      }
+
+      if (choice.startsWith("Popup")) {
+        const backend = await ctx.ui.select("Popup backend (auto detects from the environment)", [...POPUP_BACKENDS])
+        if (!backend) continue
+
+        const width = (await ctx.ui.input("Popup width (e.g. 85% or 120)", settings.popup.width))?.trim()
+        if (width === undefined) continue
+
+        const height = (await ctx.ui.input("Popup height (e.g. 85% or 40)", settings.popup.height))?.trim()
+        if (height === undefined) continue
+
+        const popup = parsePopup({ backend, width, height }, DEFAULT_POPUP)
+        if (saveSetting(ctx, "popup", popup)) ctx.ui.notify(`Saved popup: ${describePopup(popup)}`, "success")
+        continue
+      }
+
+      if (choice.startsWith("Directories")) {
+        const directoryOpener = await promptOpener(ctx, "Directory opener", settings.directoryOpener, DIRECTORY_PRESETS)
+        if (!directoryOpener) continue
+
+        if (saveSetting(ctx, "directoryOpener", directoryOpener)) {
+          ctx.ui.notify(`Saved directory opener: ${describeOpener(directoryOpener)}`, "success")
+        }
+        continue
+      }
+
+      if (choice.startsWith("URLs")) {
+        const urlOpener = await promptOpener(ctx, "URL opener", settings.urlOpener, URL_PRESETS)
+        if (!urlOpener) continue
+
+        if (saveSetting(ctx, "urlOpener", urlOpener)) {
+          ctx.ui.notify(`Saved URL opener: ${describeOpener(urlOpener)}`, "success")
+        }
+        continue
+      }
+
+      if (choice.startsWith("Tell agent")) {
+        if (!saveSetting(ctx, "notifyAgentOfEdits", !settings.notifyAgentOfEdits)) continue
+        ctx.ui.notify(`Tell agent about my edits: ${settings.notifyAgentOfEdits ? "on" : "off"}`, "success")
+        continue
+      }
+
+      if (choice.startsWith("Diff viewer")) {
+        const presets = DIFF_PRESETS.map(describeDiffViewer)
+        const value = await ctx.ui.select("Diff viewer ({old} = snapshot, {file} = current)", [...presets, "Custom…"])
+        if (!value) continue
+
+        let diff = DIFF_PRESETS[presets.indexOf(value)]
+        if (!diff) {
+          const command = (await ctx.ui.input("Diff command", settings.diff.command))?.trim()
+          if (!command) continue
+
+          const args = (await ctx.ui.input("Arguments ({old}, {file})", settings.diff.args))?.trim()
+          if (!args) continue
+
+          diff = { command, args }
+        }
+
+        if (saveSetting(ctx, "diff", diff)) ctx.ui.notify(`Saved diff viewer: ${describeDiffViewer(diff)}`, "success")
+        continue
+      }
+
+      if (choice.startsWith("Hyperlinks")) {
+        const value = await ctx.ui.select("Link file paths in assistant output", [...HYPERLINK_MODES])
+        if (!value) continue
+
+        if (saveSetting(ctx, "hyperlinks", value as HyperlinkMode)) {
+          await updateMarkdownLinker(ctx)
+          ctx.ui.notify(`Saved hyperlinks: ${value}`, "success")
+        }
+        continue
+      }
+
+      const value = await ctx.ui.input("Command used by Alt+E edit shortcut", settings.editCommand)
+      if (value === undefined) continue
+
+      const next = value.trim()
+      if (!next) {
+        ctx.ui.notify("Command cannot be empty", "warning")
+        continue
+      }
+
+      if (saveSetting(ctx, "editCommand", next)) ctx.ui.notify(`Saved edit command: ${next}`, "success")
+    }
+  }
+
+  pi.on("session_start", async (_event, ctx) => {
+    loaded = loadSettings(ctx.cwd)
+    settings = loaded.settings
+    if (loaded.errors.length) ctx.ui.notify(`pi-open settings are invalid:\n${loaded.errors.join("\n")}`, "error")
+    if (ctx.hasUI) await promptProjectTrust(ctx)
+
+    // Snapshots belong to the session that took them; a new or resumed session starts clean
+    snapshots.clear()
+    await updateMarkdownLinker(ctx)
+
+    // Pending writes belong to the previous session's project
+    flushHistory()
+    historyCwd = ctx.cwd
+    history = loadHistory(ctx.cwd)
+    syncedHistory = new Map(history.map((entry) => [entry.path, entry]))
+    persistHistory()
+    // The previous session may have been in another project, so only this project's history seeds the list
+    recentMentions = mergeMentions([], historyToMentions(history, ctx.cwd), ctx.cwd)
+    recentTouches = []
+  })
+
+  pi.on("message_end", async (event, ctx) => {
+    if (event.message.role !== "assistant") return
+
+    const text = extractAssistantTextContent((event.message as { content?: unknown }).content)
+    if (!text) return
+
+    const mentions = [...extractExistingPathMentions(text, ctx.cwd), ...extractUrlMentions(text)]
+    if (mentions.length) recordMentions(mentions, ctx.cwd)
+  })
+
+  pi.on("tool_call", async (event, ctx) => {
+    if (event.toolName !== "write" && event.toolName !== "edit") return
+
+    const rawPath = typeof event.input.path === "string" ? event.input.path.replace(/^@/, "") : null
+    if (!rawPath) return
+
+    const absolutePath = isAbsolute(rawPath) ? rawPath : resolve(ctx.cwd, rawPath)
+    if (!snapshots.has(absolutePath)) {
+      snapshots.set(absolutePath, { content: readSnapshotContent(absolutePath), at: Date.now() })
+    }
+  })
+
+  // Files the agent read or changed are open targets too, even if never named in text
+  pi.on("tool_result", async (event, ctx) => {
+    if (event.isError) return
+
+    const touches = touchedFilesFromToolResult(event.toolName, event.input, event.details, ctx.cwd)
+    if (!touches.length) return
+
+    for (const touch of touches) recentTouches = recordTouch(recentTouches, touch)
+    updateWorkspaceIndex(touches, ctx.cwd)
+
+    const mentions = touches.map((touch) => ({
+      path: relative(ctx.cwd, touch.path) || touch.path,
+      context: `${touch.kind} by agent`,
+      line: touch.line,
+    }))
+    recordMentions(mentions, ctx.cwd, "touch")
+  })
+
+  pi.on("session_shutdown", async () => {
+    flushHistory()
+    markdownLinker = null
+    linkCtx = null
+    linkServer?.server.close()
+    linkServer = null
+  })
+
+  const buildPickerItems = (cwd: string): PickerItem[] => {
+    const items: PickerItem[] = []
+    const seen = new Set<string>()
+
+    const add = (path: string, recency: number | null, line?: number) => {
+      // URLs have nothing on disk to check, so they are listed as is
+      if (isUrl(path)) {
+        if (seen.has(path)) return
+        seen.add(path)
+        items.push({ path, absolutePath: path, recency })
+        return
+      }
+
+      const absolutePath = isAbsolute(path) ? path : resolve(cwd, path)
+      if (seen.has(absolutePath) || !existsSync(absolutePath)) return
+
+      seen.add(absolutePath)
+      items.push({ path: relative(cwd, absolutePath) || absolutePath, absolutePath, recency, line })
+    }
+
+    // Most recent first: what the agent touched, then what it mentioned, then the rest
+    recentTouches.forEach((touch, i) => add(touch.path, i, touch.line))
+    recentMentions.forEach((mention, i) => add(mention.path, recentTouches.length + i, mention.line))
+    for (const path of getWorkspaceFiles(cwd)) add(path, null)
+
+    return items
+  }
+
+  const openFromPicker = async (ctx: ExtensionContext, query: string) => {
+    const picked = await pickFile(ctx, buildPickerItems(ctx.cwd), query)
+    if (!picked) return
+
+    const target = formatTarget({ path: picked.item.absolutePath, line: picked.item.line })
+    const opener: Opener | undefined =
+      picked.action === "edit" ? { command: settings.editCommand, args: "{file}", mode: "popup" } : undefined
+    await openAndRecord(target, ctx, opener)
+  }
+
+  const openHistoryPage = async (ctx: ExtensionContext) => {
+    while (true) {
+      history = history.filter((entry) => existsSync(entry.path))
+      persistHistory()
+
+      if (!history.length) {
+        ctx.ui.notify("No open history for this project", "info")
+        return
+      }
+
+      const now = Date.now()
+      const entries = [...history].sort((a, b) => frecencyScore(b, now) - frecencyScore(a, now))
+      const options = entries.map((entry) => {
+        const path = relative(ctx.cwd, entry.path) || entry.path
+        return `${path} — opened ${entry.openCount}×, mentioned ${entry.mentionCount}×, ${formatAge(lastUsedAt(entry), now)}`
+      })
+
+      const choice = await ctx.ui.select(`Open history (${entries.length})`, [...options, "Clear history", "Done"])
+      if (!choice || choice === "Done") return
+
+      if (choice === "Clear history") {
+        const confirmed = await ctx.ui.confirm("Clear open history?", `Forget all ${entries.length} files for ${ctx.cwd}`)
+        if (!confirmed) continue
+
+        history = []
+        persistHistory()
+        ctx.ui.notify("Open history cleared", "success")
+        return
+      }
+
+      const entry = entries[options.indexOf(choice)]
+      if (!entry) continue
+
+      const action = await ctx.ui.select(relative(ctx.cwd, entry.path) || entry.path, ["Open", "Edit", "Forget", "Back"])
+      if (!action || action === "Back") continue
+
+      if (action === "Forget") {
+        history = history.filter((candidate) => candidate !== entry)
+        recentMentions = recentMentions.filter(
+          (mention) => (isAbsolute(mention.path) ? mention.path : resolve(ctx.cwd, mention.path)) !== entry.path,
+        )
+        persistHistory()
+        continue
+      }
+
+      const opener: Opener | undefined =
+        action === "Edit" ? { command: settings.editCommand, args: "{file}", mode: "popup" } : undefined
+      await openAndRecord(entry.path, ctx, opener)
+      return
+    }
+  }
+
+  const openDiffPage = async (ctx: ExtensionContext, query: string) => {
+    if (!ctx.hasUI) {
+      ctx.ui.notify("Diff requires interactive mode", "warning")
+      return
+    }
+
+    const changed = Array.from(snapshots.entries())
+      .filter(([path, snapshot]) => readSnapshotContent(path) !== snapshot.content)
+      .sort(([, a], [, b]) => a.at - b.at)
+
+    if (!changed.length) {
+      ctx.ui.notify("No files changed by the agent this session", "info")
+      return
+    }
+
+    if (query) {
+      const mentions = changed.map(([path]) => ({ path: relative(ctx.cwd, path) || path, context: "edited by agent" }))
+      const explicit = extractExplicitTargetPath(query)
+      const match = explicit
+        ? splitPathPosition(explicit.replace(/^@/, "")).path
+        : findMentionForQuery(mentions, query)?.path
+      const absolutePath = match ? (isAbsolute(match) ? match : resolve(ctx.cwd, match)) : null
+      const snapshot = absolutePath ? snapshots.get(absolutePath) : undefined
+
+      if (!absolutePath || !snapshot) {
+        ctx.ui.notify(`No agent changes match: ${query}`, "warning")
+        return
+      }
+
+      await showDiff(ctx, settings.diff, settings.popup, absolutePath, snapshot)
+      return
+    }
+
+    if (changed.length === 1) {
+      const [path, snapshot] = changed[0]
+      await showDiff(ctx, settings.diff, settings.popup, path, snapshot)
+      return
+    }
+
+    const options = changed.map(([path]) => relative(ctx.cwd, path) || path)
+    const stepAll = `Step through all ${changed.length} files`
+    const choice = await ctx.ui.select("Agent changes this session", [stepAll, ...options])
+    if (!choice) return
+
+    if (choice !== stepAll) {
+      const [path, snapshot] = changed[options.indexOf(choice)]
+      await showDiff(ctx, settings.diff, settings.popup, path, snapshot)
+      return
+    }
+
+    for (let i = 0; i < changed.length; i++) {
+      const [path, snapshot] = changed[i]
+      await showDiff(ctx, settings.diff, settings.popup, path, snapshot)
+
+      const next = changed[i + 1]
+      if (!next) break
+
+      const step = await ctx.ui.select(`Reviewed ${i + 1}/${changed.length}`, [`Next: ${options[i + 1]}`, "Stop"])
+      if (!step || step === "Stop") return
+    }
+  }
+
+  const openLastTouch = async (ctx: ExtensionContext, modifiedOnly: boolean, opener?: Opener) => {
+    const touch = findLastTouch(recentTouches, modifiedOnly)
+    if (!touch) {
+      ctx.ui.notify(modifiedOnly ? "No file edited by the agent yet" : "No file touched by the agent yet", "warning")
+      return
+    }
+
+    await openAndRecord(formatTarget(touch), ctx, opener)
+  }
+
+  pi.on("input", async (event, ctx) => {
+    if (event.source !== "interactive") return { action: "continue" } as const
+
+    const bangTarget = extractBangOpenPath(event.text)
+    if (!bangTarget) return { action: "continue" } as const
+
+    await openAndRecord(bangTarget, ctx)
+    return { action: "handled" } as const
+  })
+
+  pi.registerCommand("open", {
+    description: "Open @file/query, or run /open settings to configure opener rules",
+    handler: async (args, ctx) => {
+      const subcommand = args.trim()
+      if (subcommand === "settings") {
+        await openSettingsPage(ctx)
+        return
+      }
+
+      if (subcommand === "diff" || subcommand.startsWith("diff ")) {
+        await openDiffPage(ctx, subcommand.slice("diff".length).trim())
+        return
+      }
+
+      if (subcommand === "history") {
+        await openHistoryPage(ctx)
+        return
+      }
+
+      if (subcommand === "edited") {
+        await openLastTouch(ctx, true)
+        return
+      }
+
+      // Prefer the last modified file, but fall back to anything the agent touched
+      if (subcommand === "last") {
+        await openLastTouch(ctx, !!findLastTouch(recentTouches, true))
+        return
+      }
+
+      const boost = frecencyBoost(ctx.cwd)
+      const candidates = queryCandidates(args, ctx.cwd, boost)
+      if (ctx.hasUI && (!subcommand || (!extractExplicitTargetPath(args) && isAmbiguousQuery(candidates, args, boost)))) {
+        // The picker needs every word to match, so leave out stop words like "the"
+        await openFromPicker(ctx, tokenizeQuery(subcommand).join(" "))
+        return
+      }
+
+      const target = resolveOpenTarget(args, candidates, boost)
+      if (!target) {
+        ctx.ui.notify("Usage: /open @path/to/file|dir, /open <url>, /open <query>, /open last, /open edited, /open diff, /open history, or /open settings", "warning")
+        return
+      }
+
+      await openAndRecord(target, ctx)
+    },
   })
 
   const editFromEditorInput = async (ctx: ExtensionContext) => {
     const input = ctx.ui.getEditorText()
-    const target = resolveOpenTarget(input, recentMentions)
+    const editOpener: Opener = { command: settings.editCommand, args: "{file}", mode: "popup" }
+
+    if (!input.trim() && findLastTouch(recentTouches, true)) {
+      await openLastTouch(ctx, true, editOpener)
+      return
+    }
+
+    const boost = frecencyBoost(ctx.cwd)
+    const candidates = queryCandidates(input, ctx.cwd, boost)
+    // A tie across the whole workspace is a guess, not a target
+    const ambiguous = candidates !== recentMentions && isAmbiguousQuery(candidates, input, boost)
+    const target = ambiguous ? null : resolveOpenTarget(input, candidates, boost)
     if (!target) {
       ctx.ui.notify("No edit target in input. Use @path, query text, or /open", "warning")
       return
     }
 
-    await openTarget(target, ctx, settings, settings.editCommand)
+    await openAndRecord(target, ctx, editOpener)
   }
 
   pi.registerShortcut(Key.alt("e"), {
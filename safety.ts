@@ -62,6 +62,7 @@ export default function (pi: ExtensionAPI) {
                         return { block: true, reason: `Dangerous command blocked (${reason}) - no UI for confirmation` };
                     }
 
+                    pi.events.emit("pi-ext:awaiting-input", { title: `Dangerous command (${reason})` });
                     const choice = await ctx.ui.select(
                         `⚠️ Dangerous command (${reason}):\n\n  ${command}\n\nAllow?`,
                         ["No, block", "Yes, execute"],
@@ -96,6 +97,7 @@ export default function (pi: ExtensionAPI) {
                         return { block: true, reason: `Sensitive path blocked (${reason}) - no UI for confirmation` };
                     }
 
+                    pi.events.emit("pi-ext:awaiting-input", { title: `Modifying ${reason}` });
                     const choice = await ctx.ui.select(
                         `⚠️ Modifying ${reason}:\n\n  ${path}\n\nAllow?`,
                         ["No, block", "Yes, allow"],